@@ -0,0 +1,174 @@
+import { useEffect, useRef } from "react";
+import type { EditorOption, EditorType } from "./types";
+import { useTableLocale } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+export interface CellEditorProps {
+  type: EditorType;
+  draft: any;
+  options?: Array<string | EditorOption>;
+  label: string;
+  error: string | null;
+  pending: boolean;
+  onChange: (draft: any) => void;
+  onCommit: (draft?: any) => void;
+  onCancel: () => void;
+  onTab: (backward: boolean) => void;
+}
+
+// ============= Draft Conversion =============
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+/**
+ * Converts a cell value into the draft shape an input expects.
+ */
+export function toEditorDraft(type: EditorType, value: unknown): any {
+  switch (type) {
+    case "checkbox":
+      return Boolean(value);
+    case "date": {
+      if (value instanceof Date && !Number.isNaN(value.getTime())) {
+        return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(
+          value.getDate(),
+        )}`;
+      }
+      return typeof value === "string" ? value.slice(0, 10) : "";
+    }
+    default:
+      return value === null || value === undefined ? "" : String(value);
+  }
+}
+
+/**
+ * Converts a draft back into a cell value. Numbers parse to `number`
+ * (`null` when empty); select values keep the type of the chosen option.
+ */
+export function fromEditorDraft(
+  type: EditorType,
+  draft: any,
+  options?: Array<string | EditorOption>,
+): any {
+  switch (type) {
+    case "number": {
+      if (String(draft).trim() === "") return null;
+      const parsed = Number(draft);
+      return Number.isNaN(parsed) ? draft : parsed;
+    }
+    case "checkbox":
+      return Boolean(draft);
+    case "select": {
+      const match = options
+        ?.map((o) => (typeof o === "string" ? { label: o, value: o } : o))
+        .find((o) => String(o.value) === String(draft));
+      return match ? match.value : draft;
+    }
+    default:
+      return draft;
+  }
+}
+
+// ============= Main Component =============
+
+const CellEditor: React.FC<CellEditorProps> = ({
+  type,
+  draft,
+  options = [],
+  label,
+  error,
+  pending,
+  onChange,
+  onCommit,
+  onCancel,
+  onTab,
+}) => {
+  const { t } = useTableLocale();
+  const inputRef = useRef<HTMLInputElement & HTMLSelectElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+    if (inputRef.current && type === "text") inputRef.current.select();
+  }, [type]);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    e.stopPropagation();
+    if (e.key === "Enter") {
+      e.preventDefault();
+      onCommit();
+    } else if (e.key === "Escape") {
+      e.preventDefault();
+      onCancel();
+    } else if (e.key === "Tab") {
+      e.preventDefault();
+      onTab(e.shiftKey);
+    }
+  };
+
+  const commonProps = {
+    ref: inputRef,
+    className: `apt-cell-editor-input${error ? " apt-cell-editor-invalid" : ""}`,
+    "aria-label": t("editCell", { column: label }),
+    "aria-invalid": error ? true : undefined,
+    disabled: pending,
+    onKeyDown: handleKeyDown,
+    onBlur: () => onCommit(),
+  };
+
+  let input: React.ReactNode;
+  if (type === "select") {
+    input = (
+      <select
+        {...commonProps}
+        value={draft}
+        onChange={(e) => onChange(e.target.value)}
+      >
+        {options.map((option) => {
+          const opt =
+            typeof option === "string"
+              ? { label: option, value: option }
+              : option;
+          return (
+            <option key={String(opt.value)} value={opt.value}>
+              {opt.label}
+            </option>
+          );
+        })}
+      </select>
+    );
+  } else if (type === "checkbox") {
+    input = (
+      <input
+        {...commonProps}
+        type="checkbox"
+        className="apt-cell-editor-checkbox"
+        checked={Boolean(draft)}
+        onChange={(e) => onCommit(e.target.checked)}
+      />
+    );
+  } else {
+    input = (
+      <input
+        {...commonProps}
+        type={type === "number" ? "number" : type === "date" ? "date" : "text"}
+        value={draft}
+        onChange={(e) => onChange(e.target.value)}
+      />
+    );
+  }
+
+  return (
+    <div
+      className={`apt-cell-editor${pending ? " apt-cell-editor-pending" : ""}`}
+    >
+      {input}
+      {error && (
+        <div className="apt-cell-editor-error" role="alert">
+          {error}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CellEditor;
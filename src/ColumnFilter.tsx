@@ -0,0 +1,213 @@
+import { useEffect, useRef, useState } from "react";
+import type { ColumnFilterConfig, FilterValue } from "./types";
+import { createEmptyFilter } from "./filtering";
+import { useTableLocale } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+export interface ColumnFilterProps {
+  config: ColumnFilterConfig<any>;
+  filter: FilterValue | undefined;
+  onChange: (filter: FilterValue) => void;
+  label: string;
+  options?: string[];
+}
+
+// ============= Helpers =============
+
+const parseNumberInput = (raw: string): number | null => {
+  if (raw.trim() === "") return null;
+  const parsed = Number(raw);
+  return Number.isNaN(parsed) ? null : parsed;
+};
+
+// ============= Enum Multi-Select =============
+
+const EnumFilter: React.FC<{
+  filter: Extract<FilterValue, { type: "enum" }>;
+  options: string[];
+  label: string;
+  onChange: (filter: FilterValue) => void;
+}> = ({ filter, options, label, onChange }) => {
+  const { t } = useTableLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const toggleValue = (value: string) => {
+    const values = filter.values.includes(value)
+      ? filter.values.filter((v) => v !== value)
+      : [...filter.values, value];
+    onChange({ type: "enum", values });
+  };
+
+  const summary =
+    filter.values.length === 0
+      ? t("filterAll")
+      : filter.values.length === 1
+        ? filter.values[0]
+        : t("filterSelectedCount", { count: filter.values.length });
+
+  return (
+    <div className="apt-filter-enum" ref={menuRef}>
+      <button
+        type="button"
+        className="apt-filter-input apt-filter-enum-btn"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={t("filterColumn", { column: label })}
+        aria-expanded={isOpen}
+      >
+        {summary}
+      </button>
+      {isOpen && (
+        <div className="apt-filter-enum-menu">
+          {filter.values.length > 0 && (
+            <button
+              type="button"
+              className="apt-filter-clear"
+              onClick={() => onChange({ type: "enum", values: [] })}
+            >
+              {t("filterClear")}
+            </button>
+          )}
+          {options.map((option) => (
+            <label key={option} className="apt-filter-enum-item">
+              <input
+                type="checkbox"
+                checked={filter.values.includes(option)}
+                onChange={() => toggleValue(option)}
+              />
+              <span>{option}</span>
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============= Main Component =============
+
+const ColumnFilter: React.FC<ColumnFilterProps> = ({
+  config,
+  filter,
+  onChange,
+  label,
+  options = [],
+}) => {
+  const { t } = useTableLocale();
+  const current =
+    filter && filter.type === config.type ? filter : createEmptyFilter(config);
+
+  switch (current.type) {
+    case "number":
+      return (
+        <div className="apt-filter-range">
+          <input
+            type="number"
+            className="apt-filter-input"
+            placeholder={t("filterMin")}
+            aria-label={t("filterMinLabel", { column: label })}
+            value={current.min ?? ""}
+            onChange={(e) =>
+              onChange({ ...current, min: parseNumberInput(e.target.value) })
+            }
+          />
+          <input
+            type="number"
+            className="apt-filter-input"
+            placeholder={t("filterMax")}
+            aria-label={t("filterMaxLabel", { column: label })}
+            value={current.max ?? ""}
+            onChange={(e) =>
+              onChange({ ...current, max: parseNumberInput(e.target.value) })
+            }
+          />
+        </div>
+      );
+    case "date":
+      return (
+        <div className="apt-filter-range">
+          <input
+            type="date"
+            className="apt-filter-input"
+            aria-label={t("filterFromLabel", { column: label })}
+            value={current.from ?? ""}
+            onChange={(e) =>
+              onChange({ ...current, from: e.target.value || null })
+            }
+          />
+          <input
+            type="date"
+            className="apt-filter-input"
+            aria-label={t("filterToLabel", { column: label })}
+            value={current.to ?? ""}
+            onChange={(e) =>
+              onChange({ ...current, to: e.target.value || null })
+            }
+          />
+        </div>
+      );
+    case "enum":
+      return (
+        <EnumFilter
+          filter={current}
+          options={config.options || options}
+          label={label}
+          onChange={onChange}
+        />
+      );
+    default: {
+      const modeLabel = t(
+        current.mode === "equals" ? "filterEquals" : "filterContains",
+      );
+      return (
+        <div className="apt-filter-text">
+          <input
+            type="text"
+            className="apt-filter-input"
+            placeholder={config.placeholder || t("filterPlaceholder")}
+            aria-label={t("filterColumn", { column: label })}
+            value={current.value}
+            onChange={(e) => onChange({ ...current, value: e.target.value })}
+          />
+          <button
+            type="button"
+            className="apt-filter-mode"
+            title={modeLabel}
+            aria-label={t("filterModeLabel", {
+              column: label,
+              mode: modeLabel,
+            })}
+            onClick={() =>
+              onChange({
+                ...current,
+                mode: current.mode === "equals" ? "contains" : "equals",
+              })
+            }
+          >
+            {current.mode === "equals" ? "=" : "≈"}
+          </button>
+        </div>
+      );
+    }
+  }
+};
+
+export default ColumnFilter;
@@ -0,0 +1,114 @@
+import { useEffect, useRef, useState } from "react";
+import type { ColumnPin } from "./types";
+import { useTableLocale } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+export interface ColumnMenuProps {
+  label: string;
+  pinned: ColumnPin | null;
+  onPinChange: (pin: ColumnPin | null) => void;
+}
+
+const MenuIcon: React.FC = () => (
+  <svg
+    width="12"
+    height="12"
+    viewBox="0 0 12 12"
+    fill="currentColor"
+    aria-hidden="true"
+  >
+    <circle cx="6" cy="2.5" r="1.1" />
+    <circle cx="6" cy="6" r="1.1" />
+    <circle cx="6" cy="9.5" r="1.1" />
+  </svg>
+);
+
+// ============= Main Component =============
+
+/**
+ * Per-column header menu. Clicks and key presses are kept from reaching the
+ * header cell so they don't trigger sorting or grid navigation.
+ */
+const ColumnMenu: React.FC<ColumnMenuProps> = ({
+  label,
+  pinned,
+  onPinChange,
+}) => {
+  const { t } = useTableLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const select = (pin: ColumnPin | null) => {
+    onPinChange(pin);
+    setIsOpen(false);
+  };
+
+  const items: Array<{ pin: ColumnPin | null; label: string }> = [
+    ...(pinned !== "left"
+      ? [{ pin: "left" as ColumnPin, label: t("pinLeft") }]
+      : []),
+    ...(pinned !== "right"
+      ? [{ pin: "right" as ColumnPin, label: t("pinRight") }]
+      : []),
+    ...(pinned ? [{ pin: null, label: t("unpin") }] : []),
+  ];
+
+  return (
+    <div
+      className="apt-column-menu"
+      ref={menuRef}
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+      onKeyDown={(e) => {
+        e.stopPropagation();
+        if (e.key === "Escape") setIsOpen(false);
+      }}
+    >
+      <button
+        type="button"
+        className="apt-column-menu-btn"
+        aria-label={t("columnOptions", { column: label })}
+        aria-haspopup="menu"
+        aria-expanded={isOpen}
+        onClick={() => setIsOpen(!isOpen)}
+      >
+        <MenuIcon />
+      </button>
+      {isOpen && (
+        <div className="apt-column-menu-list" role="menu">
+          {items.map((item) => (
+            <button
+              key={item.label}
+              type="button"
+              role="menuitem"
+              className="apt-column-menu-item"
+              onClick={() => select(item.pin)}
+            >
+              {item.label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ColumnMenu;
@@ -1,17 +1,54 @@
 import { useState, useRef, useEffect } from "react";
+import type { HeaderAccessor, RowData } from "./types";
+import { applyColumnOrder, DropPlacement, moveColumn } from "./columnOrder";
+import { TableMessages, useTableLocale } from "./localization";
 
 // ============= TypeScript Interfaces =============
 
-export interface ColumnDefinition {
-  key: string;
+export interface ColumnDefinition<TRow extends RowData = RowData> {
+  key: HeaderAccessor<TRow>;
   label: string;
+  /** `false` keeps the column visible and its checkbox disabled. */
+  hideable?: boolean;
+  /** Section heading; columns sharing one are listed together. */
+  group?: string;
 }
 
-export interface ColumnVisibilityToggleProps {
-  availableColumns: ColumnDefinition[];
-  visibleColumns: string[];
-  onColumnsChange: (columns: string[]) => void;
+export interface ColumnVisibilityToggleProps<TRow extends RowData = RowData> {
+  availableColumns: ColumnDefinition<TRow>[];
+  visibleColumns: HeaderAccessor<TRow>[];
+  onColumnsChange: (columns: HeaderAccessor<TRow>[]) => void;
+  /**
+   * @deprecated Saves the visible columns in localStorage and restores them on
+   * mount. Inside a `Table`, visibility is part of its persisted state.
+   */
   storageKey?: string;
+  /** Adds a "Reset to default" action that restores these columns. */
+  defaultVisibleColumns?: HeaderAccessor<TRow>[];
+  /** Columns that must stay visible. Defaults to `1`. */
+  minVisibleColumns?: number;
+  /** Display order of the list, e.g. the table's `columnOrder`. */
+  columnOrder?: HeaderAccessor<TRow>[];
+  /** Makes the list reorderable by drag or ArrowUp/ArrowDown on a handle. */
+  onColumnOrderChange?: (columnOrder: HeaderAccessor<TRow>[]) => void;
+  /** Overrides the locale from `TableLocaleProvider`. */
+  locale?: string;
+  messages?: Partial<TableMessages>;
+}
+
+// ============= Utilities =============
+
+function loadStoredColumns(storageKey: string | undefined): string[] | null {
+  if (!storageKey || typeof window === "undefined") return null;
+  try {
+    const raw = window.localStorage.getItem(storageKey);
+    if (!raw) return null;
+    const parsed = JSON.parse(raw);
+    if (!Array.isArray(parsed)) return null;
+    return parsed.filter((key): key is string => typeof key === "string");
+  } catch {
+    return null;
+  }
 }
 
 // ============= SVG Icon (replaced react-icons) =============
@@ -28,16 +65,105 @@ const ViewColumnIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
+const DragIcon: React.FC = () => (
+  <svg
+    width="8"
+    height="12"
+    viewBox="0 0 8 12"
+    fill="currentColor"
+    aria-hidden="true"
+  >
+    <circle cx="2" cy="2" r="1" />
+    <circle cx="6" cy="2" r="1" />
+    <circle cx="2" cy="6" r="1" />
+    <circle cx="6" cy="6" r="1" />
+    <circle cx="2" cy="10" r="1" />
+    <circle cx="6" cy="10" r="1" />
+  </svg>
+);
+
 // ============= Main Component =============
 
-const ColumnVisibilityToggle: React.FC<ColumnVisibilityToggleProps> = ({
+const ColumnVisibilityToggle = <TRow extends RowData = RowData>({
   availableColumns,
   visibleColumns,
   onColumnsChange,
   storageKey,
-}) => {
+  defaultVisibleColumns,
+  minVisibleColumns = 1,
+  columnOrder,
+  onColumnOrderChange,
+  locale,
+  messages,
+}: ColumnVisibilityToggleProps<TRow>) => {
+  const { t, formatNumber } = useTableLocale({ locale, messages });
   const [isOpen, setIsOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [drag, setDrag] = useState<{
+    key: string;
+    target: string | null;
+    placement: DropPlacement;
+  } | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
+  const focusKeyRef = useRef<string | null>(null);
+
+  const orderedColumns = applyColumnOrder(
+    availableColumns,
+    columnOrder,
+    (column) => column.key,
+  );
+  const isReorderable = typeof onColumnOrderChange === "function";
+  const requiredKeys = availableColumns
+    .filter((column) => column.hideable === false)
+    .map((column) => column.key);
+  const canHideMore = visibleColumns.length > minVisibleColumns;
+
+  const normalizedQuery = query.trim().toLocaleLowerCase();
+  const matchingColumns = normalizedQuery
+    ? orderedColumns.filter((column) =>
+        column.label.toLocaleLowerCase().includes(normalizedQuery),
+      )
+    : orderedColumns;
+
+  // Sections in order of their first column; ungrouped columns get none.
+  const sections: Array<{
+    group: string | undefined;
+    columns: ColumnDefinition<TRow>[];
+  }> = [];
+  matchingColumns.forEach((column) => {
+    let section = sections.find((s) => s.group === column.group);
+    if (!section) {
+      section = { group: column.group, columns: [] };
+      sections.push(section);
+    }
+    section.columns.push(column);
+  });
+  // Keyboard moves step through the list as displayed.
+  const displayedColumns = sections.flatMap((section) => section.columns);
+
+  // Restore the saved selection; columns that can't be hidden stay visible.
+  useEffect(() => {
+    const stored = loadStoredColumns(storageKey);
+    if (!stored) return;
+    const known = availableColumns
+      .map((column) => column.key)
+      .filter((key) => stored.includes(key) || requiredKeys.includes(key));
+    if (known.length >= Math.min(minVisibleColumns, availableColumns.length)) {
+      onColumnsChange(known);
+    }
+  }, [storageKey]);
+
+  // Moving a list item re-inserts its node, so restore focus to its handle.
+  useEffect(() => {
+    const key = focusKeyRef.current;
+    if (!key) return;
+    focusKeyRef.current = null;
+    menuRef.current
+      ?.querySelector<HTMLElement>(
+        `[data-column-key="${key}"] .apt-column-toggle-drag`,
+      )
+      ?.focus();
+  });
 
   // Close menu when clicking outside
   useEffect(() => {
@@ -56,7 +182,7 @@ const ColumnVisibilityToggle: React.FC<ColumnVisibilityToggleProps> = ({
     };
   }, [isOpen]);
 
-  const saveToStorage = (columns: string[]) => {
+  const saveToStorage = (columns: HeaderAccessor<TRow>[]) => {
     if (storageKey && typeof window !== "undefined") {
       try {
         window.localStorage.setItem(storageKey, JSON.stringify(columns));
@@ -69,19 +195,111 @@ const ColumnVisibilityToggle: React.FC<ColumnVisibilityToggleProps> = ({
     }
   };
 
-  const handleToggleColumn = (columnKey: string) => {
-    const newVisibleColumns = visibleColumns.includes(columnKey)
-      ? visibleColumns.filter((key) => key !== columnKey)
-      : [...visibleColumns, columnKey];
+  const commitColumns = (columns: HeaderAccessor<TRow>[]) => {
+    saveToStorage(columns);
+    onColumnsChange(columns);
+  };
+
+  const handleToggleColumn = (columnKey: HeaderAccessor<TRow>) => {
+    if (visibleColumns.includes(columnKey)) {
+      if (requiredKeys.includes(columnKey) || !canHideMore) return;
+      commitColumns(visibleColumns.filter((key) => key !== columnKey));
+    } else {
+      commitColumns([...visibleColumns, columnKey]);
+    }
+  };
+
+  const reorderColumn = (
+    key: string,
+    target: string,
+    placement: DropPlacement,
+  ) => {
+    const current = orderedColumns.map((column) => column.key as string);
+    const next = moveColumn(current, key, target, placement);
+    if (next === current) return false;
+    onColumnOrderChange?.(next as HeaderAccessor<TRow>[]);
+    return true;
+  };
 
-    saveToStorage(newVisibleColumns);
-    onColumnsChange(newVisibleColumns);
+  const handleDragKeyDown = (e: React.KeyboardEvent, index: number) => {
+    if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+    e.preventDefault();
+    const key = displayedColumns[index].key;
+    const neighbour = displayedColumns[index + (e.key === "ArrowUp" ? -1 : 1)];
+    if (!neighbour) return;
+    if (
+      reorderColumn(
+        key,
+        neighbour.key,
+        e.key === "ArrowUp" ? "before" : "after",
+      )
+    ) {
+      focusKeyRef.current = key;
+    }
+  };
+
+  const handleDragStart = (e: React.PointerEvent, key: string) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    let drop: { target: string; placement: DropPlacement } | null = null;
+    document.body.style.userSelect = "none";
+    setDrag({ key, target: null, placement: "before" });
+
+    const handlePointerMove = (moveEvent: PointerEvent) => {
+      const item = document
+        .elementFromPoint(moveEvent.clientX, moveEvent.clientY)
+        ?.closest<HTMLElement>("[data-column-key]");
+      const target = item?.dataset.columnKey;
+      drop = null;
+      if (item && target && target !== key && menuRef.current?.contains(item)) {
+        const rect = item.getBoundingClientRect();
+        drop = {
+          target,
+          placement:
+            moveEvent.clientY < rect.top + rect.height / 2 ? "before" : "after",
+        };
+      }
+      setDrag({
+        key,
+        target: drop?.target ?? null,
+        placement: drop?.placement ?? "before",
+      });
+    };
+
+    const handlePointerEnd = (endEvent: PointerEvent) => {
+      document.body.style.userSelect = "";
+      document.removeEventListener("pointermove", handlePointerMove);
+      document.removeEventListener("pointerup", handlePointerEnd);
+      document.removeEventListener("pointercancel", handlePointerEnd);
+      setDrag(null);
+      if (endEvent.type === "pointerup" && drop) {
+        reorderColumn(key, drop.target, drop.placement);
+      }
+    };
+
+    document.addEventListener("pointermove", handlePointerMove);
+    document.addEventListener("pointerup", handlePointerEnd);
+    document.addEventListener("pointercancel", handlePointerEnd);
   };
 
   const handleSelectAll = () => {
-    const allKeys = availableColumns.map((col) => col.key);
-    saveToStorage(allKeys);
-    onColumnsChange(allKeys);
+    commitColumns(availableColumns.map((col) => col.key));
+  };
+
+  // Leaves the columns that can't be hidden, topped up with the first
+  // visible ones to satisfy `minVisibleColumns`.
+  const handleDeselectAll = () => {
+    const next = [...requiredKeys];
+    orderedColumns.forEach((column) => {
+      if (
+        next.length < minVisibleColumns &&
+        visibleColumns.includes(column.key) &&
+        !next.includes(column.key)
+      ) {
+        next.push(column.key);
+      }
+    });
+    commitColumns(next);
   };
 
   return (
@@ -90,13 +308,13 @@ const ColumnVisibilityToggle: React.FC<ColumnVisibilityToggleProps> = ({
         type="button"
         onClick={() => setIsOpen(!isOpen)}
         className="apt-column-toggle-btn"
-        aria-label="Toggle column visibility"
+        aria-label={t("toggleColumnVisibility")}
         aria-expanded={isOpen}
       >
         <ViewColumnIcon className="apt-column-toggle-icon" />
-        <span>Columns</span>
+        <span>{t("columns")}</span>
         <span className="apt-column-toggle-count">
-          ({visibleColumns.length})
+          ({formatNumber(visibleColumns.length)})
         </span>
       </button>
 
@@ -104,32 +322,124 @@ const ColumnVisibilityToggle: React.FC<ColumnVisibilityToggleProps> = ({
         <div className="apt-column-toggle-menu">
           <div className="apt-column-toggle-menu-inner">
             <div className="apt-column-toggle-header">
-              <h3 className="apt-column-toggle-title">Toggle Columns</h3>
-              <button
-                type="button"
-                onClick={handleSelectAll}
-                className="apt-column-toggle-select-all"
-              >
-                Select All
-              </button>
+              <h3 className="apt-column-toggle-title">{t("toggleColumns")}</h3>
+              <div className="apt-column-toggle-actions">
+                <button
+                  type="button"
+                  onClick={handleSelectAll}
+                  className="apt-column-toggle-select-all"
+                >
+                  {t("selectAllColumns")}
+                </button>
+                <button
+                  type="button"
+                  onClick={handleDeselectAll}
+                  className="apt-column-toggle-select-all"
+                >
+                  {t("deselectAllColumns")}
+                </button>
+                {defaultVisibleColumns && (
+                  <button
+                    type="button"
+                    onClick={() => commitColumns(defaultVisibleColumns)}
+                    className="apt-column-toggle-select-all"
+                  >
+                    {t("resetColumns")}
+                  </button>
+                )}
+              </div>
             </div>
+            <input
+              type="search"
+              className="apt-column-toggle-search"
+              placeholder={t("searchColumns")}
+              aria-label={t("searchColumns")}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+            />
             <div className="apt-column-toggle-list">
-              {availableColumns.map((column) => {
-                const isVisible = visibleColumns.includes(column.key);
-                return (
-                  <label key={column.key} className="apt-column-toggle-item">
-                    <input
-                      type="checkbox"
-                      checked={isVisible}
-                      onChange={() => handleToggleColumn(column.key)}
-                      className="apt-column-toggle-checkbox"
-                    />
-                    <span className="apt-column-toggle-label">
-                      {column.label}
-                    </span>
-                  </label>
+              {sections.map((section) => {
+                const items = section.columns.map((column) => {
+                  const index = displayedColumns.indexOf(column);
+                  const isVisible = visibleColumns.includes(column.key);
+                  const isLocked =
+                    isVisible && (column.hideable === false || !canHideMore);
+                  const itemClasses = [
+                    "apt-column-toggle-item",
+                    isLocked ? "apt-column-toggle-item-locked" : "",
+                    drag?.key === column.key
+                      ? "apt-column-toggle-dragging"
+                      : "",
+                    drag?.target === column.key
+                      ? `apt-column-toggle-drop-${drag.placement}`
+                      : "",
+                  ]
+                    .filter(Boolean)
+                    .join(" ");
+                  return (
+                    <label
+                      key={column.key}
+                      className={itemClasses}
+                      data-column-key={column.key}
+                      title={
+                        isLocked && column.hideable !== false
+                          ? t("minVisibleColumns", {
+                              count: minVisibleColumns,
+                            })
+                          : undefined
+                      }
+                    >
+                      <input
+                        type="checkbox"
+                        checked={isVisible}
+                        disabled={isLocked}
+                        onChange={() => handleToggleColumn(column.key)}
+                        className="apt-column-toggle-checkbox"
+                      />
+                      <span className="apt-column-toggle-label">
+                        {column.label}
+                      </span>
+                      {isReorderable && (
+                        <button
+                          type="button"
+                          className="apt-column-toggle-drag"
+                          aria-label={t("moveColumn", {
+                            column: column.label,
+                          })}
+                          onClick={(e) => e.preventDefault()}
+                          onKeyDown={(e) => handleDragKeyDown(e, index)}
+                          onPointerDown={(e) => handleDragStart(e, column.key)}
+                        >
+                          <DragIcon />
+                        </button>
+                      )}
+                    </label>
+                  );
+                });
+                return section.group === undefined ? (
+                  items
+                ) : (
+                  <div
+                    key={`group:${section.group}`}
+                    className="apt-column-toggle-group"
+                    role="group"
+                    aria-label={section.group}
+                  >
+                    <div
+                      className="apt-column-toggle-group-title"
+                      aria-hidden="true"
+                    >
+                      {section.group}
+                    </div>
+                    {items}
+                  </div>
                 );
               })}
+              {matchingColumns.length === 0 && (
+                <div className="apt-column-toggle-empty">
+                  {t("noMatchingColumns")}
+                </div>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from "react";
+import type { RowData, TableRow } from "./types";
+import { useTableLocale } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+export interface ExpandedRowContentProps<TRow extends RowData = RowData> {
+  row: TableRow<TRow>;
+  render: (row: TableRow<TRow>) => React.ReactNode | Promise<React.ReactNode>;
+}
+
+type AsyncState =
+  | { status: "loading" }
+  | { status: "done"; content: React.ReactNode }
+  | { status: "error" };
+
+const isPromiseLike = (value: unknown): value is Promise<React.ReactNode> =>
+  typeof (value as Promise<unknown> | null)?.then === "function";
+
+// ============= Main Component =============
+
+/**
+ * Detail panel content. Synchronous renderers run on every render; a
+ * renderer that returns a Promise is called once per expansion and shows a
+ * loading state until it settles.
+ */
+const ExpandedRowContent = <TRow extends RowData = RowData>({
+  row,
+  render,
+}: ExpandedRowContentProps<TRow>) => {
+  const { t } = useTableLocale();
+  const promiseRef = useRef<Promise<React.ReactNode> | null>(null);
+  const [asyncState, setAsyncState] = useState<AsyncState>({
+    status: "loading",
+  });
+
+  let content: React.ReactNode = null;
+  if (!promiseRef.current) {
+    const result = render(row);
+    if (isPromiseLike(result)) promiseRef.current = result;
+    else content = result;
+  }
+  const promise = promiseRef.current;
+
+  useEffect(() => {
+    if (!promise) return;
+    let cancelled = false;
+    promise.then(
+      (resolved) => {
+        if (!cancelled) setAsyncState({ status: "done", content: resolved });
+      },
+      () => {
+        if (!cancelled) setAsyncState({ status: "error" });
+      },
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [promise]);
+
+  if (!promise) return <>{content}</>;
+  if (asyncState.status === "done") return <>{asyncState.content}</>;
+  if (asyncState.status === "error") {
+    return (
+      <div className="apt-expanded-error" role="alert">
+        {t("loadDetailsError")}
+      </div>
+    );
+  }
+  return (
+    <div className="apt-expanded-loading" role="status">
+      <span className="apt-spinner" />
+      <span className="apt-sr-only">{t("loadingDetails")}</span>
+    </div>
+  );
+};
+
+export default ExpandedRowContent;
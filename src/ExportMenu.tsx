@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from "react";
+import type { ExportFormat, ExportScope } from "./export";
+import { useTableLocale } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+export interface ExportMenuProps {
+  formats: ExportFormat[];
+  /** Offer "Selected rows" (only when selection is enabled). */
+  allowSelected: boolean;
+  selectedCount: number;
+  /** Offer "Current page" (only when paginating). */
+  allowPage: boolean;
+  onExport: (format: ExportFormat, scope: ExportScope) => void;
+}
+
+const FORMAT_LABELS: Record<ExportFormat, string> = {
+  csv: "CSV",
+  tsv: "TSV",
+  json: "JSON",
+  xlsx: "Excel (.xlsx)",
+};
+
+// ============= Main Component =============
+
+const ExportMenu: React.FC<ExportMenuProps> = ({
+  formats,
+  allowSelected,
+  selectedCount,
+  allowPage,
+  onExport,
+}) => {
+  const { t } = useTableLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const [scope, setScope] = useState<ExportScope>("all");
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const scopes: Array<{ value: ExportScope; label: string }> = [
+    { value: "all", label: t("exportAllRows") },
+    ...(allowPage
+      ? [{ value: "page" as ExportScope, label: t("exportCurrentPage") }]
+      : []),
+    ...(allowSelected
+      ? [
+          {
+            value: "selected" as ExportScope,
+            label: t("exportSelectedRows", { count: selectedCount }),
+          },
+        ]
+      : []),
+  ];
+  // Fall back when the chosen scope is no longer offered.
+  const activeScope = scopes.some((s) => s.value === scope) ? scope : "all";
+
+  return (
+    <div className="apt-export" ref={menuRef}>
+      <button
+        type="button"
+        className="apt-export-btn"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        {t("export")}
+      </button>
+      {isOpen && (
+        <div className="apt-export-menu">
+          {scopes.length > 1 && (
+            <fieldset className="apt-export-scope">
+              <legend>{t("exportRows")}</legend>
+              {scopes.map((option) => (
+                <label key={option.value} className="apt-export-scope-item">
+                  <input
+                    type="radio"
+                    value={option.value}
+                    checked={activeScope === option.value}
+                    disabled={
+                      option.value === "selected" && selectedCount === 0
+                    }
+                    onChange={() => setScope(option.value)}
+                  />
+                  <span>{option.label}</span>
+                </label>
+              ))}
+            </fieldset>
+          )}
+          {formats.map((format) => (
+            <button
+              key={format}
+              type="button"
+              className="apt-export-format"
+              onClick={() => {
+                onExport(format, activeScope);
+                setIsOpen(false);
+              }}
+            >
+              {FORMAT_LABELS[format]}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,162 @@
+import { useEffect, useState } from "react";
+import { useTableLocale } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+export interface PaginationProps {
+  /** 1-based current page. */
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+  /** Show a number input for jumping straight to a page. */
+  showPageJump?: boolean;
+}
+
+type PageItem = number | "start-ellipsis" | "end-ellipsis";
+
+// ============= Helpers =============
+
+/**
+ * Page numbers to render, always including the first and last page and
+ * `siblingCount` pages either side of `page`. Gaps collapse into an
+ * ellipsis, keeping the item count constant so buttons don't jump around.
+ */
+function getPageItems(
+  page: number,
+  pageCount: number,
+  siblingCount = 1,
+): PageItem[] {
+  const range = (from: number, to: number) =>
+    Array.from({ length: to - from + 1 }, (_, i) => from + i);
+  // Siblings, the current page and two ellipsis slots between first and last.
+  const windowSize = siblingCount * 2 + 3;
+  if (pageCount <= windowSize + 2) return range(1, pageCount);
+
+  if (page <= windowSize - siblingCount) {
+    return [...range(1, windowSize), "end-ellipsis", pageCount];
+  }
+  if (page > pageCount - windowSize + siblingCount) {
+    return [
+      1,
+      "start-ellipsis",
+      ...range(pageCount - windowSize + 1, pageCount),
+    ];
+  }
+  return [
+    1,
+    "start-ellipsis",
+    ...range(page - siblingCount, page + siblingCount),
+    "end-ellipsis",
+    pageCount,
+  ];
+}
+
+// ============= Main Component =============
+
+const Pagination: React.FC<PaginationProps> = ({
+  page,
+  pageCount,
+  onPageChange,
+  showPageJump = true,
+}) => {
+  const { t, formatNumber } = useTableLocale();
+  const [jumpValue, setJumpValue] = useState(String(page));
+
+  useEffect(() => {
+    setJumpValue(String(page));
+  }, [page]);
+
+  const goTo = (target: number) => {
+    const clamped = Math.min(Math.max(1, target), pageCount);
+    if (clamped !== page) onPageChange(clamped);
+  };
+
+  const commitJump = () => {
+    const target = Math.round(Number(jumpValue));
+    if (jumpValue.trim() && Number.isFinite(target)) goTo(target);
+    setJumpValue(String(page));
+  };
+
+  return (
+    <nav className="apt-pagination" aria-label={t("pagination")}>
+      <button
+        type="button"
+        className="apt-btn apt-page-edge"
+        onClick={() => goTo(1)}
+        disabled={page === 1}
+        aria-label={t("firstPage")}
+        title={t("firstPage")}
+      >
+        «
+      </button>
+      <button
+        type="button"
+        className="apt-btn"
+        onClick={() => goTo(page - 1)}
+        disabled={page === 1}
+      >
+        {t("previousPage")}
+      </button>
+      <ul className="apt-page-list">
+        {getPageItems(page, pageCount).map((item) =>
+          typeof item === "number" ? (
+            <li key={item}>
+              <button
+                type="button"
+                className={`apt-page-btn${
+                  item === page ? " apt-page-btn-active" : ""
+                }`}
+                aria-label={t("goToPage", { page: item })}
+                aria-current={item === page ? "page" : undefined}
+                onClick={() => goTo(item)}
+              >
+                {formatNumber(item)}
+              </button>
+            </li>
+          ) : (
+            <li key={item} className="apt-page-ellipsis" aria-hidden="true">
+              …
+            </li>
+          ),
+        )}
+      </ul>
+      <button
+        type="button"
+        className="apt-btn"
+        onClick={() => goTo(page + 1)}
+        disabled={page === pageCount}
+      >
+        {t("nextPage")}
+      </button>
+      <button
+        type="button"
+        className="apt-btn apt-page-edge"
+        onClick={() => goTo(pageCount)}
+        disabled={page === pageCount}
+        aria-label={t("lastPage")}
+        title={t("lastPage")}
+      >
+        »
+      </button>
+      {showPageJump && pageCount > 1 && (
+        <label className="apt-page-jump">
+          {t("jumpToPage")}
+          <input
+            type="number"
+            className="apt-page-jump-input"
+            min={1}
+            max={pageCount}
+            value={jumpValue}
+            onChange={(e) => setJumpValue(e.target.value)}
+            onBlur={commitJump}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") commitJump();
+            }}
+          />
+        </label>
+      )}
+    </nav>
+  );
+};
+
+export default Pagination;
@@ -0,0 +1,45 @@
+import { useEffect, useRef } from "react";
+
+// ============= TypeScript Interfaces =============
+
+export interface SelectionCheckboxProps {
+  checked: boolean;
+  indeterminate?: boolean;
+  disabled?: boolean;
+  label: string;
+  onToggle: (shiftKey: boolean) => void;
+}
+
+// ============= Main Component =============
+
+const SelectionCheckbox: React.FC<SelectionCheckboxProps> = ({
+  checked,
+  indeterminate = false,
+  disabled = false,
+  label,
+  onToggle,
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  // `indeterminate` is a DOM property only, not an attribute.
+  useEffect(() => {
+    if (inputRef.current) inputRef.current.indeterminate = indeterminate;
+  }, [indeterminate]);
+
+  return (
+    <input
+      ref={inputRef}
+      type="checkbox"
+      className="apt-select-checkbox"
+      checked={checked}
+      disabled={disabled}
+      aria-label={label}
+      onClick={(e) => e.stopPropagation()}
+      onChange={(e) =>
+        onToggle(Boolean((e.nativeEvent as MouseEvent).shiftKey))
+      }
+    />
+  );
+};
+
+export default SelectionCheckbox;
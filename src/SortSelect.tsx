@@ -0,0 +1,65 @@
+import type { SortDirection } from "./types";
+import { useTableLocale } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+export interface SortSelectProps {
+  options: Array<{ accessor: string; label: string }>;
+  /** The primary sort key, if any. */
+  value: { key: string; direction: SortDirection } | undefined;
+  onChange: (sort: { key: string; direction: SortDirection } | null) => void;
+}
+
+// ============= Main Component =============
+
+/**
+ * Sort picker for layouts without clickable column headers (mobile cards).
+ */
+const SortSelect: React.FC<SortSelectProps> = ({
+  options,
+  value,
+  onChange,
+}) => {
+  const { t } = useTableLocale();
+  const direction = value?.direction ?? "asc";
+
+  return (
+    <div className="apt-sort-select">
+      <select
+        className="apt-sort-select-input"
+        aria-label={t("sortBy")}
+        value={value?.key ?? ""}
+        onChange={(e) =>
+          onChange(e.target.value ? { key: e.target.value, direction } : null)
+        }
+      >
+        <option value="">{t("sortByPlaceholder")}</option>
+        {options.map((option) => (
+          <option key={option.accessor} value={option.accessor}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      <button
+        type="button"
+        className="apt-sort-select-direction"
+        disabled={!value}
+        aria-label={t(
+          direction === "asc" ? "sortedAscending" : "sortedDescending",
+        )}
+        title={t("reverseSort")}
+        onClick={() =>
+          value &&
+          onChange({
+            key: value.key,
+            direction: direction === "asc" ? "desc" : "asc",
+          })
+        }
+      >
+        {direction === "asc" ? "↑" : "↓"}
+      </button>
+    </div>
+  );
+};
+
+export default SortSelect;
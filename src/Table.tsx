@@ -1,49 +1,347 @@
 import {
+  forwardRef,
   Fragment,
+  useCallback,
   useEffect,
+  useImperativeHandle,
   useMemo,
   useRef,
   useState,
   CSSProperties,
+  ForwardedRef,
+  Ref,
 } from "react";
+import type {
+  AccessorPath,
+  CellEditChange,
+  CellEditorRenderProps,
+  CellPasteChange,
+  ColumnPin,
+  ColumnPinning,
+  ColumnSizingMode,
+  ColumnVisibility,
+  EditorType,
+  HeaderAccessor,
+  PaginationMode,
+  RowData,
+  SortConfig,
+  SortDirection,
+  TableFilters,
+  TableHeader,
+  TableRow,
+} from "./types";
+import { getAccessorValue, useIsomorphicLayoutEffect } from "./utils";
+import { useControllableState } from "./useControllableState";
+import { EMPTY_FILTERS } from "./filtering";
+import ColumnFilter from "./ColumnFilter";
+import { normalizeSort } from "./sorting";
+import { useTable } from "./useTable";
+import { useVirtualRows } from "./useVirtualRows";
+import SelectionCheckbox from "./SelectionCheckbox";
+import CellEditor, { fromEditorDraft, toEditorDraft } from "./CellEditor";
+import { GridPosition, useGridNavigation } from "./useGridNavigation";
+import { exportRows, ExportFormat, ExportOptions } from "./export";
+import ExpandedRowContent from "./ExpandedRowContent";
+import ExportMenu from "./ExportMenu";
+import ColumnMenu from "./ColumnMenu";
+import { applyColumnOrder, DropPlacement, moveColumn } from "./columnOrder";
+import ViewsMenu from "./ViewsMenu";
+import ColumnVisibilityToggle, {
+  ColumnDefinition,
+} from "./ColumnVisibilityToggle";
+import SortSelect from "./SortSelect";
+import Pagination from "./Pagination";
+import {
+  TableLocaleContext,
+  TableMessages,
+  TextDirection,
+  useTableLocale,
+} from "./localization";
+import {
+  createViewId,
+  migrateTableState,
+  PersistedTableState,
+  SavedTableView,
+  TABLE_STATE_VERSION,
+  TableState,
+} from "./tableState";
+import { localStorageAdapter, TableStateStorage } from "./stateStorage";
+import {
+  readUrlState,
+  UrlSyncOptions,
+  UrlTableState,
+  writeUrlState,
+} from "./urlState";
+import {
+  CellRangeBounds,
+  getRangeText,
+  parseTSV,
+  toClipboardHTML,
+  toClipboardTSV,
+} from "./clipboard";
+import { DisplayRow, getRowGroupIds } from "./grouping";
+import { Aggregate, computeAggregate, formatAggregate } from "./aggregation";
 
 // ============= TypeScript Interfaces =============
 
-export interface TableHeader {
-  accessor: string;
-  label: string;
-  isSortable?: boolean;
-  width?: string | number;
-  minWidth?: string | number;
-  cellRenderer?: (args: { row: any; value: any }) => React.ReactNode;
-}
-
-export interface SortConfig {
-  key: string;
-  direction: "asc" | "desc";
-}
-
-export interface TableProps {
-  manualHeaders: TableHeader[];
-  manualRowData: Record<string, any>[];
-  initialSort?: SortConfig | null;
+export interface TableProps<TRow extends RowData = RowData> {
+  manualHeaders: TableHeader<TRow>[];
+  manualRowData: TRow[];
+  /**
+   * Stable id for a row; defaults to its `id` field, then its index. Keys
+   * expansion, selection, edits and React keys. Default tree child ids are
+   * `"parent/child"`; ids from `getRowId` are used as-is and must be unique
+   * across the whole tree.
+   */
+  getRowId?: (row: TRow, index: number, parent?: TableRow<TRow>) => string;
+  /** Seeds the uncontrolled sort; kept for backwards compatibility. */
+  initialSort?: SortConfig<TRow> | SortConfig<TRow>[] | null;
+  sort?: SortConfig<TRow>[];
+  defaultSort?: SortConfig<TRow>[];
+  onSortChange?: (sort: SortConfig<TRow>[]) => void;
+  enableMultiSort?: boolean;
+  maxSortColumns?: number;
+  sortLocale?: string | string[];
+  collatorOptions?: Intl.CollatorOptions;
+  nullsPosition?: "first" | "last";
   height?: string;
   rowHeight?: number;
   rowsPerPage?: number;
+  defaultRowsPerPage?: number;
   shouldPaginate?: boolean;
-  rowClassName?: (row: any) => string;
-  onRowClick?: (row: any) => void;
+  /**
+   * `"loadMore"` appends the next page from a footer button and
+   * `"infinite"` appends it as the body scrolls near its end.
+   */
+  paginationMode?: PaginationMode;
+  /** Shows a "Go to page" input next to the page buttons. */
+  showPageJump?: boolean;
+  rowClassName?: (row: TableRow<TRow>) => string;
+  onRowClick?: (row: TableRow<TRow>) => void;
   minColWidth?: number;
+  /** How columns without a `width` are sized. */
+  columnSizing?: ColumnSizingMode;
+  /** Called with the final width in pixels after a resize or auto-size. */
+  onColumnResize?: (accessor: string, width: number) => void;
   mobileAutoSizeOnHeaderClick?: boolean;
   mobileBreakpoint?: number;
+  /** `"cards"` renders each row as a stacked card below `mobileBreakpoint`. */
+  mobileLayout?: "table" | "cards";
+  /**
+   * @deprecated Use `stateStorage={localStorageAdapter}` with `stateKey`.
+   * Still works as that pair; widths saved by older versions are migrated.
+   */
   columnWidthsStorageKey?: string;
+  /** Adds a header menu for pinning columns at runtime. */
+  enableColumnPinning?: boolean;
+  onColumnPinningChange?: (pinning: ColumnPinning) => void;
+  /** Column accessors in display order; unlisted columns follow. */
+  columnOrder?: string[];
+  defaultColumnOrder?: string[];
+  onColumnOrderChange?: (columnOrder: string[]) => void;
+  /** Lets users drag headers (or press Ctrl+Shift+Arrow) to reorder columns. */
+  enableColumnReorder?: boolean;
+  /** Shown (`true`) or hidden (`false`) columns by accessor. */
+  columnVisibility?: ColumnVisibility;
+  defaultColumnVisibility?: ColumnVisibility;
+  onColumnVisibilityChange?: (columnVisibility: ColumnVisibility) => void;
+  /**
+   * Adds a toolbar menu to show and hide columns, which also reorders them
+   * with `enableColumnReorder`.
+   */
+  enableColumnVisibility?: boolean;
+  /** Columns the visibility menu keeps shown. Defaults to `1`. */
+  minVisibleColumns?: number;
   rowsPerPageOptions?: number[];
   onRowsPerPageChange?: (value: number) => void;
+  /** @deprecated Use `expandedRowIds`. */
   expandedRowId?: string | null;
-  renderExpandedRow?: (row: any) => React.ReactNode;
-  renderFullRow?: (row: any) => React.ReactNode;
+  expandedRowIds?: Set<string>;
+  defaultExpandedRowIds?: Set<string>;
+  onExpandedRowIdsChange?: (expandedRowIds: Set<string>) => void;
+  /** Detail panel content. Returning a Promise shows a loading state. */
+  renderExpandedRow?: (
+    row: TableRow<TRow>,
+  ) => React.ReactNode | Promise<React.ReactNode>;
+  /** Adds a leading column with a toggle for each expandable row. */
+  showExpanderColumn?: boolean;
+  isRowExpandable?: (row: TableRow<TRow>) => boolean;
+  renderFullRow?: (row: TableRow<TRow>) => React.ReactNode;
+  filters?: TableFilters;
+  defaultFilters?: TableFilters;
+  onFiltersChange?: (filters: TableFilters) => void;
+  showFilterRow?: boolean;
+  showGlobalSearch?: boolean;
+  globalSearchPlaceholder?: string;
+  /**
+   * Server-side mode: rows are rendered as given and sorting, filtering and
+   * pagination are left to the consumer via the controlled props.
+   */
+  manual?: boolean;
+  totalRowCount?: number;
+  page?: number;
+  defaultPage?: number;
+  onPageChange?: (page: number) => void;
+  loading?: boolean;
+  /** Only render rows inside the scroll viewport (plus `overscan`). */
+  virtualized?: boolean;
+  overscan?: number;
+  selectionMode?: "none" | "single" | "multi";
+  selectedRowIds?: Set<string>;
+  defaultSelectedRowIds?: Set<string>;
+  onSelectionChange?: (selectedRowIds: Set<string>) => void;
+  isRowSelectable?: (row: TableRow<TRow>) => boolean;
+  /** Whether the header checkbox selects the current page or every row. */
+  selectAllScope?: "page" | "all";
+  renderBulkActions?: (args: BulkActionsArgs<TRow>) => React.ReactNode;
+  /**
+   * Called when an inline edit is committed. Return a Promise to keep the
+   * cell in a pending state; a rejection is shown as the cell's error.
+   */
+  onCellEdit?: (change: CellEditChange<TRow>) => void | Promise<void>;
+  /** Formats offered by the toolbar export button; omit to hide it. */
+  exportFormats?: ExportFormat[];
+  /** Download file name (without extension) used by the export button. */
+  exportFilename?: string;
+  /**
+   * Rectangular cell selection in the body (drag, Shift+click,
+   * Shift+Arrow) with Ctrl/Cmd+C copying it as TSV and HTML.
+   */
+  cellRangeSelection?: boolean;
+  /**
+   * Called with the parsed clipboard values on Ctrl/Cmd+V. Only editable
+   * cells that pass `validate` are included.
+   */
+  onPaste?: (changes: CellPasteChange<TRow>[]) => void;
+  /** Accessor(s) to group rows by, outermost first. */
+  groupBy?: AccessorPath<TRow> | AccessorPath<TRow>[];
+  defaultGroupBy?: AccessorPath<TRow> | AccessorPath<TRow>[];
+  onGroupByChange?: (groupBy: AccessorPath<TRow>[]) => void;
+  defaultGroupsCollapsed?: boolean;
+  /**
+   * Defaults to `true` when any header defines `footer`, `footerRenderer` or
+   * `aggregate`.
+   */
+  showFooter?: boolean;
+  /** Rows the footer aggregates: every filtered row or the current page. */
+  footerScope?: "all" | "page";
+  /** Tree data: nested rows of a row. */
+  getSubRows?: (row: TRow) => TRow[] | undefined;
+  /** Tree data: loads a row's children the first time it is expanded. */
+  loadChildren?: (row: TableRow<TRow>) => Promise<TRow[]>;
+  /** With `loadChildren`: whether a row that hasn't loaded yet has children. */
+  hasChildren?: (row: TRow) => boolean;
+  /** Column holding the tree indent and toggle. Defaults to the first one. */
+  treeColumn?: HeaderAccessor<TRow>;
+  expandedIds?: Set<string>;
+  defaultExpandedIds?: Set<string>;
+  onExpandedIdsChange?: (expandedIds: Set<string>) => void;
+  /** Persists widths, visibility, order, pinning, sort, filters, page size and grouping. */
+  stateStorage?: TableStateStorage;
+  /** Key passed to `stateStorage`. Required for persistence. */
+  stateKey?: string;
+  /** Toolbar menu to save, rename, switch and reset named views. */
+  enableViews?: boolean;
+  onStateChange?: (state: TableState) => void;
+  /**
+   * Mirrors sort, page, page size and filters in the query string so links
+   * can be shared and back/forward restore them.
+   */
+  urlSync?: boolean | UrlSyncOptions;
+  /** Overrides the locale from `TableLocaleProvider`. */
+  locale?: string;
+  /** Overrides individual built-in strings. */
+  messages?: Partial<TableMessages>;
+  /** Defaults to the locale's direction, else the surrounding document's. */
+  dir?: TextDirection;
+}
+
+export interface BulkActionsArgs<TRow extends RowData = RowData> {
+  selectedRowIds: Set<string>;
+  selectedRows: TableRow<TRow>[];
+  clearSelection: () => void;
+}
+
+export interface ScrollToRowOptions {
+  align?: "start" | "center" | "end" | "auto";
+}
+
+export interface TableHandle {
+  /** Scrolls to a row by id, switching pages first if needed. */
+  scrollToRow: (id: string, options?: ScrollToRowOptions) => void;
+  /**
+   * Serializes the current view (visible columns, filters and sort) and
+   * downloads it unless `download: false` is passed.
+   */
+  exportData: (options: ExportOptions) => Blob;
+  /** Tree data: expands every row whose children are known. */
+  expandAll: () => void;
+  /** Tree data: collapses every row. */
+  collapseAll: () => void;
+  /** Pins a column to either edge, or unpins it with `null`. */
+  pinColumn: (accessor: string, pin: ColumnPin | null) => void;
+  /** Fits a column to its label and the text of the rows on the page. */
+  autoSizeColumn: (accessor: string) => void;
+  autoSizeAllColumns: () => void;
+  getState: () => TableState;
+  /** Applies the given fields; others keep their current value. */
+  setState: (state: TableState) => void;
+  /** Restores every field to its default and leaves the active view. */
+  resetState: () => void;
+  /** Saves the current state as a named view and returns its id. */
+  saveView: (name: string) => string;
+  applyView: (id: string) => void;
+  renameView: (id: string, name: string) => void;
+  deleteView: (id: string) => void;
 }
 
+// Non-distributed renderer signature used when iterating mixed headers.
+type CellRenderer<TRow extends RowData> = (args: {
+  row: TableRow<TRow>;
+  value: any;
+}) => React.ReactNode;
+
+type CustomEditor<TRow extends RowData> = (
+  props: CellEditorRenderProps<TRow>,
+) => React.ReactNode;
+
+interface EditingCell {
+  rowId: string;
+  accessor: string;
+  draft: any;
+  error: string | null;
+  pending: boolean;
+}
+
+// Far corner of a cell range; the focused cell is always the anchor.
+interface RangeEnd {
+  anchorRow: number;
+  anchorCol: number;
+  row: number;
+  col: number;
+}
+
+const ARROW_DELTAS: Record<string, [number, number]> = {
+  ArrowUp: [-1, 0],
+  ArrowDown: [1, 0],
+  ArrowLeft: [0, -1],
+  ArrowRight: [0, 1],
+};
+
+// Infinite mode loads the next page within this distance of the end.
+const INFINITE_SCROLL_THRESHOLD = 200;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+// Events coming from inputs inside a cell keep their native behaviour.
+const isFromCellContent = (target: EventTarget) =>
+  Boolean(
+    (target as HTMLElement).closest?.(
+      "input, select, textarea, button, a, [contenteditable]",
+    ),
+  );
+
 // ============= SVG Icons (replaced react-icons) =============
 
 const SortIcon: React.FC<{ className?: string }> = ({ className }) => (
@@ -82,351 +380,1330 @@ const SortDownIcon: React.FC<{ className?: string }> = ({ className }) => (
   </svg>
 );
 
+const ChevronIcon: React.FC<{ className?: string }> = ({ className }) => (
+  <svg
+    className={className}
+    width="12"
+    height="12"
+    viewBox="0 0 12 12"
+    fill="currentColor"
+    aria-hidden="true"
+  >
+    <path d="M4 2l5 4-5 4V2z" />
+  </svg>
+);
+
+const GripIcon: React.FC = () => (
+  <svg
+    width="8"
+    height="12"
+    viewBox="0 0 8 12"
+    fill="currentColor"
+    aria-hidden="true"
+  >
+    <circle cx="2" cy="2" r="1" />
+    <circle cx="6" cy="2" r="1" />
+    <circle cx="2" cy="6" r="1" />
+    <circle cx="6" cy="6" r="1" />
+    <circle cx="2" cy="10" r="1" />
+    <circle cx="6" cy="10" r="1" />
+  </svg>
+);
+
 // ============= Utilities =============
 
-function loadStoredColumnWidths(
-  columnWidthsStorageKey: string | undefined,
-  fallback: Record<string, string | number | undefined>,
-): Record<string, string | number | undefined> {
-  if (!columnWidthsStorageKey || typeof window === "undefined") return fallback;
-  try {
-    const raw = window.localStorage.getItem(columnWidthsStorageKey);
-    if (!raw) return fallback;
-    const parsed = JSON.parse(raw);
-    if (!parsed || typeof parsed !== "object") return fallback;
-    const next = { ...fallback };
-    Object.keys(next).forEach((key) => {
-      const val = parsed[key];
-      if (typeof val === "number" || typeof val === "string") next[key] = val;
-    });
-    return next;
-  } catch {
-    return fallback;
-  }
+const toArray = <T,>(value: T | T[] | undefined): T[] =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+const isPromiseLike = (value: unknown): value is Promise<unknown> =>
+  typeof (value as Promise<unknown> | null)?.then === "function";
+
+// Runtime pinning overrides the header's own `pinned` option.
+function resolveColumnPin(
+  header: { accessor: string; pinned?: ColumnPin },
+  pinning: ColumnPinning,
+): ColumnPin | null {
+  return header.accessor in pinning
+    ? pinning[header.accessor]
+    : (header.pinned ?? null);
+}
+
+// Runtime visibility overrides `defaultHidden`; unhideable columns always show.
+function resolveColumnVisible(
+  header: { accessor: string; hideable?: boolean; defaultHidden?: boolean },
+  visibility: ColumnVisibility,
+): boolean {
+  if (header.hideable === false) return true;
+  return visibility[header.accessor] ?? !header.defaultHidden;
 }
 
 // ============= Main Component =============
 
-const Table: React.FC<TableProps> = ({
-  manualHeaders,
-  manualRowData,
-  initialSort,
-  height = "100%",
-  rowHeight = 40,
-  rowsPerPage = 60,
-  shouldPaginate = true,
-  rowClassName,
-  onRowClick,
-  minColWidth = 50,
-  mobileAutoSizeOnHeaderClick = false,
-  mobileBreakpoint = 768,
-  columnWidthsStorageKey,
-  rowsPerPageOptions = [20, 50, 100],
-  onRowsPerPageChange,
-  expandedRowId,
-  renderExpandedRow,
-  renderFullRow,
-}) => {
-  const [sortConfig, setSortConfig] = useState<SortConfig | null>(
-    initialSort || null,
-  );
-  const [currentPage, setCurrentPage] = useState(1);
-  const [columnWidths, setColumnWidths] = useState<
-    Record<string, string | number>
-  >({});
-  const [expandedColumns, setExpandedColumns] = useState<Set<string>>(
-    () => new Set(),
+const TableInner = <TRow extends RowData = RowData>(
+  {
+    manualHeaders,
+    manualRowData,
+    getRowId,
+    initialSort,
+    height = "100%",
+    rowHeight = 40,
+    rowsPerPage: controlledRowsPerPage,
+    defaultRowsPerPage = 60,
+    shouldPaginate = true,
+    paginationMode = "pages",
+    showPageJump = true,
+    rowClassName,
+    onRowClick,
+    minColWidth = 50,
+    columnSizing = "fixed",
+    onColumnResize,
+    mobileAutoSizeOnHeaderClick = false,
+    mobileBreakpoint = 768,
+    mobileLayout = "table",
+    columnWidthsStorageKey,
+    enableColumnPinning = false,
+    onColumnPinningChange,
+    columnOrder: controlledColumnOrder,
+    defaultColumnOrder,
+    onColumnOrderChange,
+    enableColumnReorder = false,
+    columnVisibility: controlledColumnVisibility,
+    defaultColumnVisibility,
+    onColumnVisibilityChange,
+    enableColumnVisibility = false,
+    minVisibleColumns = 1,
+    rowsPerPageOptions = [20, 50, 100],
+    onRowsPerPageChange,
+    expandedRowId,
+    expandedRowIds: controlledExpandedRowIds,
+    defaultExpandedRowIds,
+    onExpandedRowIdsChange,
+    renderExpandedRow,
+    showExpanderColumn = false,
+    isRowExpandable,
+    renderFullRow,
+    filters: controlledFilters,
+    defaultFilters = EMPTY_FILTERS,
+    onFiltersChange,
+    showFilterRow,
+    showGlobalSearch = false,
+    globalSearchPlaceholder,
+    sort: controlledSort,
+    defaultSort,
+    onSortChange,
+    enableMultiSort = true,
+    maxSortColumns,
+    sortLocale,
+    collatorOptions,
+    nullsPosition = "last",
+    manual = false,
+    totalRowCount,
+    page: controlledPage,
+    defaultPage = 1,
+    onPageChange,
+    loading = false,
+    virtualized = false,
+    overscan = 10,
+    selectionMode = "none",
+    selectedRowIds: controlledSelectedRowIds,
+    defaultSelectedRowIds,
+    onSelectionChange,
+    isRowSelectable,
+    selectAllScope = "page",
+    renderBulkActions,
+    exportFormats = [],
+    exportFilename,
+    cellRangeSelection = false,
+    onPaste,
+    groupBy: controlledGroupBy,
+    defaultGroupBy,
+    onGroupByChange,
+    defaultGroupsCollapsed = false,
+    showFooter,
+    footerScope = "all",
+    getSubRows,
+    loadChildren,
+    hasChildren,
+    treeColumn,
+    expandedIds: controlledExpandedIds,
+    defaultExpandedIds,
+    onExpandedIdsChange,
+    stateStorage,
+    stateKey,
+    enableViews = false,
+    onStateChange,
+    urlSync = false,
+    locale,
+    messages,
+    dir,
+    onCellEdit,
+  }: TableProps<TRow>,
+  ref: ForwardedRef<TableHandle>,
+) => {
+  const localization = useTableLocale({ locale, messages, dir });
+  const { t, formatNumber } = localization;
+  const [columnVisibility, setColumnVisibility] =
+    useControllableState<ColumnVisibility>(
+      controlledColumnVisibility,
+      defaultColumnVisibility ?? {},
+      onColumnVisibilityChange,
+    );
+  const [columnPinning, setColumnPinning] = useState<ColumnPinning>({});
+  const [columnOrder, setColumnOrder] = useControllableState<string[]>(
+    controlledColumnOrder,
+    defaultColumnOrder ?? [],
+    onColumnOrderChange,
   );
-  const initialColumnWidthsRef = useRef<
-    Record<string, string | number | undefined>
-  >({});
   const suppressHeaderClickRef = useRef(false);
-  const tableRef = useRef<HTMLTableElement>(null);
-  const textMeasureContextRef = useRef<CanvasRenderingContext2D | null>(null);
-  const [isMobile, setIsMobile] = useState(() => {
-    if (typeof window === "undefined") return false;
-    return window.innerWidth < mobileBreakpoint;
-  });
-
-  const headers = useMemo(() => manualHeaders || [], [manualHeaders]);
+  // Last loaded or saved state, re-applied when headers reset the layout.
+  const persistedStateRef = useRef<TableState | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const tbodyRef = useRef<HTMLTableSectionElement>(null);
+  const pendingScrollRef = useRef<{
+    id: string;
+    options?: ScrollToRowOptions;
+  } | null>(null);
 
-  // Reset column widths, expanded columns, and page when headers/storage key changes
-  useEffect(() => {
-    const initialWidths: Record<string, string | number | undefined> = {};
-    headers.forEach((header) => {
-      initialWidths[header.accessor] = header.width;
-    });
-    initialColumnWidthsRef.current = initialWidths;
-    setColumnWidths(
-      loadStoredColumnWidths(columnWidthsStorageKey, initialWidths) as Record<
-        string,
-        string | number
-      >,
+  // Without a `dir` or right-to-left locale, follow the page's direction.
+  const [inheritedDirection, setInheritedDirection] =
+    useState<TextDirection>("ltr");
+  useIsomorphicLayoutEffect(() => {
+    if (localization.direction || !containerRef.current) return;
+    setInheritedDirection(
+      getComputedStyle(containerRef.current).direction === "rtl"
+        ? "rtl"
+        : "ltr",
     );
-    setExpandedColumns(new Set());
-    setCurrentPage(1);
-  }, [headers, columnWidthsStorageKey]);
+  }, [localization.direction]);
+  const direction = localization.direction ?? inheritedDirection;
+  const isRtl = direction === "rtl";
 
-  useEffect(() => {
-    if (!columnWidthsStorageKey || typeof window === "undefined") return;
-    if (Object.keys(columnWidths).length === 0) return;
-    window.localStorage.setItem(
-      columnWidthsStorageKey,
-      JSON.stringify(columnWidths),
-    );
-  }, [columnWidths, columnWidthsStorageKey]);
+  const sourceHeaders = useMemo(() => manualHeaders || [], [manualHeaders]);
+  const orderedHeaders = useMemo(
+    () =>
+      applyColumnOrder(
+        sourceHeaders.filter((header) =>
+          resolveColumnVisible(header, columnVisibility),
+        ),
+        columnOrder,
+        (header) => header.accessor,
+      ),
+    [sourceHeaders, columnVisibility, columnOrder],
+  );
+
+  // The visibility menu lists every column in its definition order.
+  const toggleColumns = useMemo(
+    () =>
+      sourceHeaders.map(
+        (header): ColumnDefinition<TRow> => ({
+          key: header.accessor,
+          label: header.label,
+          hideable: header.hideable,
+          group: header.columnGroup,
+        }),
+      ),
+    [sourceHeaders],
+  );
+
+  // Left-pinned columns render first and right-pinned ones last.
+  const headers = useMemo(() => {
+    const bySide = (pin: ColumnPin | null) =>
+      orderedHeaders.filter(
+        (header) => resolveColumnPin(header, columnPinning) === pin,
+      );
+    return [...bySide("left"), ...bySide(null), ...bySide("right")];
+  }, [orderedHeaders, columnPinning]);
+
+  const table = useTable<TRow>({
+    data: manualRowData,
+    getRowId,
+    columns: sourceHeaders,
+    visibleColumns: headers,
+    sort: controlledSort,
+    defaultSort: defaultSort ?? initialSort,
+    onSortChange,
+    enableMultiSort,
+    maxSortColumns,
+    sortLocale: sortLocale ?? localization.locale,
+    collatorOptions,
+    nullsPosition,
+    filters: controlledFilters,
+    defaultFilters,
+    onFiltersChange,
+    manual,
+    totalRowCount,
+    paginate: shouldPaginate,
+    paginationMode,
+    page: controlledPage,
+    defaultPage,
+    onPageChange,
+    rowsPerPage: controlledRowsPerPage,
+    defaultRowsPerPage,
+    onRowsPerPageChange,
+    groupBy:
+      controlledGroupBy === undefined ? undefined : toArray(controlledGroupBy),
+    defaultGroupBy: toArray(defaultGroupBy),
+    onGroupByChange,
+    defaultGroupsCollapsed,
+    getSubRows,
+    loadChildren,
+    hasChildren,
+    expandedIds: controlledExpandedIds,
+    defaultExpandedIds,
+    onExpandedIdsChange,
+    onLoadChildrenError: () => setAnnouncement(t("loadChildrenError")),
+    minColWidth,
+    columnSizing,
+    onColumnResize,
+    mobileAutoSizeOnHeaderClick,
+    mobileBreakpoint,
+    locale,
+    messages,
+    dir: direction,
+  });
+  const {
+    rows,
+    allRows,
+    sortedRows,
+    displayRows,
+    pageItems,
+    pageRows: paginatedRows,
+    sort,
+    setSort,
+    filters,
+    setFilters,
+    setColumnFilter: handleColumnFilterChange,
+    setGlobalFilter: handleGlobalFilterChange,
+    isFiltered,
+    filterConfigs,
+    enumOptions,
+    currentPage,
+    page: safePage,
+    setPage: setCurrentPage,
+    pageCount: totalPages,
+    rowsPerPage,
+    setRowsPerPage,
+    isPaginated: effectiveShouldPaginate,
+    totalCount,
+    visibleRange,
+    hasMore,
+    loadMore,
+    groupBy: groupByKeys,
+    setGroupBy,
+    groups,
+    isGroupCollapsed,
+    toggleGroups,
+    isTree,
+    expandedIds,
+    loadingChildIds,
+    canExpandTreeRow: isTreeRowExpandable,
+    toggleTreeRow,
+    expandAll,
+    collapseAll,
+    columnWidths,
+    setColumnWidths,
+    resizeColumnBy,
+    autoSizeColumn,
+    autoSizeAllColumns,
+    isMobile,
+    tableRef,
+  } = table;
 
+  // Re-apply persisted pinning and widths when headers change
   useEffect(() => {
-    if (typeof window === "undefined") return undefined;
-    const handleResize = () =>
-      setIsMobile(window.innerWidth < mobileBreakpoint);
-    window.addEventListener("resize", handleResize);
-    return () => window.removeEventListener("resize", handleResize);
-  }, [mobileBreakpoint]);
-
-  const measureTextWidth = (text: any): number => {
-    if (typeof document === "undefined") return String(text ?? "").length * 8;
-    const ctx =
-      textMeasureContextRef.current ||
-      (() => {
-        const canvas = document.createElement("canvas");
-        const context = canvas.getContext("2d");
-        if (tableRef.current && context) {
-          const font = window.getComputedStyle(tableRef.current).font;
-          context.font = font || "12px sans-serif";
-        }
-        textMeasureContextRef.current = context;
-        return context;
-      })();
-    return ctx ? ctx.measureText(String(text ?? "")).width : 0;
+    const persisted = persistedStateRef.current;
+    if (persisted?.columnWidths) {
+      setColumnWidths((prev) => ({ ...prev, ...persisted.columnWidths }));
+    }
+    setColumnPinning(persisted?.columnPinning ?? {});
+  }, [sourceHeaders]);
+
+  const pinColumn = (accessor: string, pin: ColumnPin | null) => {
+    const next = { ...columnPinning, [accessor]: pin };
+    setColumnPinning(next);
+    if (onColumnPinningChange) {
+      const resolved: ColumnPinning = {};
+      sourceHeaders.forEach((header) => {
+        resolved[header.accessor] = resolveColumnPin(header, next);
+      });
+      onColumnPinningChange(resolved);
+    }
   };
 
-  const parseWidthValue = (
-    value: string | number | undefined,
-    fallback: number,
-  ): number => {
-    if (typeof value === "number" && !Number.isNaN(value)) return value;
-    if (typeof value === "string") {
-      const parsed = parseFloat(value);
-      if (!Number.isNaN(parsed)) return parsed;
+  const treeAccessor = treeColumn ?? headers[0]?.accessor;
+
+  const isFilterRowVisible =
+    showFilterRow ?? filterConfigs.some((config) => config !== null);
+
+  const getVirtualKey = useCallback(
+    (index: number) => {
+      const item = pageItems[index];
+      if (!item) return String(index);
+      return item.type === "row" ? item.row.id : `group:${item.group.id}`;
+    },
+    [pageItems],
+  );
+
+  const getHeaderOffset = useCallback(
+    () => tableRef.current?.tHead?.offsetHeight ?? 0,
+    [],
+  );
+
+  const virtual = useVirtualRows({
+    enabled: virtualized,
+    count: pageItems.length,
+    getKey: getVirtualKey,
+    estimateSize: rowHeight,
+    overscan,
+    scrollRef: scrollAreaRef,
+    bodyRef: tbodyRef,
+    getHeaderOffset,
+  });
+
+  const visibleItems = virtualized
+    ? pageItems.slice(virtual.startIndex, virtual.endIndex)
+    : pageItems;
+  const visibleStartIndex = virtualized ? virtual.startIndex : 0;
+
+  const scrollRowIntoView = (index: number, options?: ScrollToRowOptions) => {
+    const scrollEl = scrollAreaRef.current;
+    if (!scrollEl) return;
+    const headerOffset = getHeaderOffset();
+    const footerOffset = tableRef.current?.tFoot?.offsetHeight ?? 0;
+    let offset: number;
+    let size: number;
+    if (virtualized) {
+      offset = virtual.getOffset(index);
+      size = virtual.getSize(index);
+    } else {
+      const tr = tbodyRef.current?.querySelector<HTMLElement>(
+        `tr[data-apt-index="${index}"]`,
+      );
+      if (!tr) return;
+      offset = tr.offsetTop - headerOffset;
+      size = tr.offsetHeight;
     }
-    return fallback;
+    const viewport = scrollEl.clientHeight - headerOffset - footerOffset;
+    const align = options?.align ?? "auto";
+    let top: number;
+    if (align === "start") top = offset;
+    else if (align === "end") top = offset + size - viewport;
+    else if (align === "center") top = offset + size / 2 - viewport / 2;
+    else if (offset < scrollEl.scrollTop) top = offset;
+    else if (offset + size > scrollEl.scrollTop + viewport) {
+      top = offset + size - viewport;
+    } else return;
+    scrollEl.scrollTop = Math.max(0, top);
   };
 
-  const rows = useMemo(() => {
-    if (!Array.isArray(manualRowData)) return [];
+  const findDisplayIndex = (items: DisplayRow<TRow>[], id: string) =>
+    items.findIndex((item) => item.type === "row" && item.row.id === id);
 
-    const src = manualRowData
-      .filter(Boolean)
-      .filter((r) => typeof r === "object");
-
-    const makeSafeId = (full: any, idx: number): string => {
-      const rawId = full?.id;
-      const v1 =
-        rawId !== undefined && rawId !== null && String(rawId).trim() !== ""
-          ? String(rawId).trim()
-          : "";
-      const v2 = [
-        full?.order_id,
-        full?.bom_id,
-        full?.bom_workstation_status_id,
-        full?.bom_data_id,
-        full?.unique_task_info_id,
-        full?.order_data_id,
-      ]
-        .filter((v) => v !== undefined && v !== null && String(v) !== "")
-        .join("-");
-      return v1 || `${v2}-row${idx}`;
-    };
+  // Complete a scrollToRow request once its page is rendered. Expanding a
+  // collapsed group may first move the row onto another page.
+  useIsomorphicLayoutEffect(() => {
+    const pending = pendingScrollRef.current;
+    if (!pending) return;
+    const index = findDisplayIndex(pageItems, pending.id);
+    if (index !== -1) {
+      pendingScrollRef.current = null;
+      scrollRowIntoView(index, pending.options);
+      return;
+    }
+    const displayIndex = findDisplayIndex(displayRows, pending.id);
+    const page = Math.floor(displayIndex / rowsPerPage) + 1;
+    if (
+      displayIndex === -1 ||
+      !(effectiveShouldPaginate || hasMore) ||
+      page === safePage
+    ) {
+      pendingScrollRef.current = null;
+      return;
+    }
+    setCurrentPage(page);
+  });
 
-    return src.map((full: any, idx: number) => {
-      const id = makeSafeId(full, idx);
-      const base: any = { id, "#": idx + 1, _meta: full };
-      headers.forEach((h) => {
-        if (!["#", "details_meta"].includes(h.accessor)) {
-          base[h.accessor] = full?.[h.accessor] ?? "";
-        }
+  // ============= Persisted State & Views =============
+
+  const tableState = useMemo<TableState>(
+    () => ({
+      columnWidths,
+      columnVisibility,
+      columnOrder,
+      columnPinning,
+      sort,
+      filters,
+      rowsPerPage,
+      groupBy: groupByKeys,
+    }),
+    [
+      columnWidths,
+      columnVisibility,
+      columnOrder,
+      columnPinning,
+      sort,
+      filters,
+      rowsPerPage,
+      groupByKeys,
+    ],
+  );
+
+  const [views, setViews] = useState<SavedTableView[]>([]);
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
+  // `columnWidthsStorageKey` is a deprecated alias for localStorage
+  // persistence; the bare width maps it used to write are migrated on load.
+  const effectiveStateKey = stateKey ?? columnWidthsStorageKey;
+  const effectiveStateStorage =
+    stateStorage ?? (columnWidthsStorageKey ? localStorageAdapter : undefined);
+  const [isStateLoaded, setIsStateLoaded] = useState(
+    !effectiveStateStorage || !effectiveStateKey,
+  );
+  const stateStorageRef = useRef(effectiveStateStorage);
+  stateStorageRef.current = effectiveStateStorage;
+  const lastSavedStateRef = useRef<string | null>(null);
+
+  const getDefaultTableState = (): TableState => ({
+    columnWidths: table.initialColumnWidths as Record<string, string | number>,
+    columnVisibility: defaultColumnVisibility ?? {},
+    columnOrder: defaultColumnOrder ?? [],
+    columnPinning: {},
+    sort: normalizeSort(defaultSort ?? initialSort),
+    filters: defaultFilters,
+    rowsPerPage: defaultRowsPerPage,
+    groupBy: toArray(defaultGroupBy),
+  });
+
+  const applyTableState = (state: TableState) => {
+    if (state.columnWidths) {
+      setColumnWidths({
+        ...(table.initialColumnWidths as Record<string, string | number>),
+        ...state.columnWidths,
       });
-      return base;
+    }
+    if (state.columnVisibility) setColumnVisibility(state.columnVisibility);
+    if (state.columnOrder) setColumnOrder(state.columnOrder);
+    if (state.columnPinning) setColumnPinning(state.columnPinning);
+    if (state.sort) setSort(normalizeSort(state.sort as SortConfig<TRow>[]));
+    if (state.filters) setFilters(state.filters);
+    if (state.rowsPerPage) setRowsPerPage(state.rowsPerPage);
+    if (state.groupBy) setGroupBy(state.groupBy as AccessorPath<TRow>[]);
+    setCurrentPage(1);
+  };
+
+  const resetState = () => {
+    applyTableState(getDefaultTableState());
+    setActiveViewId(null);
+  };
+
+  const saveView = (name: string) => {
+    const id = createViewId();
+    setViews((prev) => [...prev, { id, name, state: tableState }]);
+    setActiveViewId(id);
+    return id;
+  };
+
+  const applyView = (id: string) => {
+    const view = views.find((v) => v.id === id);
+    if (!view) return;
+    applyTableState({ ...getDefaultTableState(), ...view.state });
+    setActiveViewId(id);
+  };
+
+  const updateView = (id: string) =>
+    setViews((prev) =>
+      prev.map((view) =>
+        view.id === id ? { ...view, state: tableState } : view,
+      ),
+    );
+
+  const renameView = (id: string, name: string) =>
+    setViews((prev) =>
+      prev.map((view) => (view.id === id ? { ...view, name } : view)),
+    );
+
+  const deleteView = (id: string) => {
+    setViews((prev) => prev.filter((view) => view.id !== id));
+    if (activeViewId === id) setActiveViewId(null);
+  };
+
+  const activeView = views.find((view) => view.id === activeViewId);
+  const isViewModified =
+    !!activeView &&
+    JSON.stringify({ ...getDefaultTableState(), ...activeView.state }) !==
+      JSON.stringify(tableState);
+
+  // Load before paint so synchronous storage doesn't flash the defaults.
+  useIsomorphicLayoutEffect(() => {
+    const storage = stateStorageRef.current;
+    if (!storage || !effectiveStateKey) return undefined;
+    let cancelled = false;
+    const hydrate = (raw: unknown) => {
+      if (cancelled) return;
+      // Widths saved under a separate legacy key are read once, until the
+      // state has been saved under `stateKey`.
+      const persisted =
+        migrateTableState(raw) ??
+        (columnWidthsStorageKey && columnWidthsStorageKey !== effectiveStateKey
+          ? migrateTableState(localStorageAdapter.load(columnWidthsStorageKey))
+          : null);
+      if (persisted) {
+        persistedStateRef.current = persisted.state;
+        applyTableState(persisted.state);
+        setViews(persisted.views);
+        setActiveViewId(persisted.activeViewId);
+      }
+      setIsStateLoaded(true);
+    };
+    try {
+      const result = storage.load(effectiveStateKey);
+      if (isPromiseLike(result)) result.then(hydrate, () => hydrate(null));
+      else hydrate(result);
+    } catch {
+      hydrate(null);
+    }
+    return () => {
+      cancelled = true;
+    };
+  }, [effectiveStateKey]);
+
+  useEffect(() => {
+    const storage = stateStorageRef.current;
+    if (!storage || !effectiveStateKey || !isStateLoaded) return undefined;
+    persistedStateRef.current = tableState;
+    const payload: PersistedTableState = {
+      version: TABLE_STATE_VERSION,
+      state: tableState,
+      views,
+      activeViewId,
+    };
+    const serialized = JSON.stringify(payload);
+    if (serialized === lastSavedStateRef.current) return undefined;
+    // Debounced so typing in a filter doesn't write on every keystroke.
+    const timer = window.setTimeout(() => {
+      lastSavedStateRef.current = serialized;
+      // Adapters may throw synchronously (e.g. quota errors) or reject.
+      Promise.resolve()
+        .then(() => storage.save(effectiveStateKey, payload))
+        .catch((error) => console.warn("Failed to save table state:", error));
+    }, 250);
+    return () => window.clearTimeout(timer);
+  }, [tableState, views, activeViewId, isStateLoaded, effectiveStateKey]);
+
+  const onStateChangeRef = useRef(onStateChange);
+  onStateChangeRef.current = onStateChange;
+  const notifiedStateRef = useRef(tableState);
+  useEffect(() => {
+    if (notifiedStateRef.current === tableState) return;
+    notifiedStateRef.current = tableState;
+    onStateChangeRef.current?.(tableState);
+  }, [tableState]);
+
+  // ============= URL Sync =============
+
+  const urlSyncOptions: UrlSyncOptions | null =
+    urlSync === true ? {} : urlSync || null;
+  const urlNamespace = urlSyncOptions?.namespace ?? "table";
+  const urlHistory = urlSyncOptions?.history ?? "replace";
+  const [isUrlStateLoaded, setIsUrlStateLoaded] = useState(false);
+  // Sort, page and size of the last synced URL; filter edits alone replace
+  // the history entry so typing doesn't flood it.
+  const urlNavigationKeyRef = useRef<string | null>(null);
+
+  const getDefaultUrlState = (): UrlTableState => ({
+    sort: normalizeSort(defaultSort ?? initialSort),
+    page: 1,
+    rowsPerPage: defaultRowsPerPage,
+    filters: defaultFilters,
+  });
+
+  const applyUrlState = (state: Partial<UrlTableState>) => {
+    if (state.sort) setSort(normalizeSort(state.sort as SortConfig<TRow>[]));
+    if (state.filters) setFilters(state.filters);
+    if (state.rowsPerPage) setRowsPerPage(state.rowsPerPage);
+    if (state.page) setCurrentPage(state.page);
+  };
+
+  const handlePopStateRef = useRef<() => void>(() => {});
+  handlePopStateRef.current = () =>
+    applyUrlState({
+      ...getDefaultUrlState(),
+      ...readUrlState(window.location.search, urlNamespace),
     });
-  }, [manualRowData, headers]);
 
-  const sortedRows = useMemo(() => {
-    if (!sortConfig || !sortConfig.key) {
-      return rows;
+  // Runs after stored state is loaded so the URL takes precedence over it.
+  useEffect(() => {
+    if (!urlSyncOptions || !isStateLoaded || typeof window === "undefined") {
+      return undefined;
+    }
+    applyUrlState(readUrlState(window.location.search, urlNamespace));
+    setIsUrlStateLoaded(true);
+    const handlePopState = () => handlePopStateRef.current();
+    window.addEventListener("popstate", handlePopState);
+    return () => window.removeEventListener("popstate", handlePopState);
+  }, [Boolean(urlSyncOptions), isStateLoaded, urlNamespace]);
+
+  useEffect(() => {
+    if (!urlSyncOptions || !isUrlStateLoaded || typeof window === "undefined") {
+      return;
+    }
+    const navigationKey = JSON.stringify([sort, currentPage, rowsPerPage]);
+    const isNavigation =
+      urlNavigationKeyRef.current !== null &&
+      urlNavigationKeyRef.current !== navigationKey;
+    urlNavigationKeyRef.current = navigationKey;
+
+    const search = writeUrlState(
+      window.location.search,
+      urlNamespace,
+      { sort, page: currentPage, rowsPerPage, filters },
+      getDefaultUrlState(),
+    );
+    if (search === new URLSearchParams(window.location.search).toString()) {
+      return;
+    }
+    const url = `${window.location.pathname}${search ? `?${search}` : ""}${
+      window.location.hash
+    }`;
+    if (urlHistory === "push" && isNavigation) {
+      window.history.pushState(window.history.state, "", url);
+    } else {
+      window.history.replaceState(window.history.state, "", url);
     }
-    const sortableRows = [...rows];
-    sortableRows.sort((a, b) => {
-      const aVal = a[sortConfig.key];
-      const bVal = b[sortConfig.key];
+  }, [sort, currentPage, rowsPerPage, filters, isUrlStateLoaded, urlNamespace]);
 
-      if (aVal < bVal) {
-        return sortConfig.direction === "asc" ? -1 : 1;
+  useImperativeHandle(ref, () => ({
+    scrollToRow: (id, options) => {
+      const pageIndex = findDisplayIndex(pageItems, id);
+      if (pageIndex !== -1) {
+        scrollRowIntoView(pageIndex, options);
+        return;
       }
-      if (aVal > bVal) {
-        return sortConfig.direction === "asc" ? 1 : -1;
+      // Rows on other pages are only known when paginating in memory.
+      if (manual) return;
+      const collapsedIds = getRowGroupIds(groups, id).filter(isGroupCollapsed);
+      if (collapsedIds.length > 0) {
+        pendingScrollRef.current = { id, options };
+        toggleGroups(collapsedIds);
+        return;
       }
-      return 0;
-    });
-    return sortableRows;
-  }, [rows, sortConfig]);
+      const index = findDisplayIndex(displayRows, id);
+      if (index === -1 || !(effectiveShouldPaginate || hasMore)) return;
+      pendingScrollRef.current = { id, options };
+      setCurrentPage(Math.floor(index / rowsPerPage) + 1);
+    },
+    exportData,
+    expandAll,
+    collapseAll,
+    pinColumn,
+    autoSizeColumn,
+    autoSizeAllColumns,
+    getState: () => tableState,
+    setState: applyTableState,
+    resetState,
+    saveView,
+    applyView,
+    renameView,
+    deleteView,
+  }));
 
-  const effectiveShouldPaginate =
-    shouldPaginate && sortedRows.length > rowsPerPage;
+  const isFullRow = useCallback(
+    (row: TableRow<TRow>) =>
+      typeof renderFullRow === "function" &&
+      Boolean((row.original as Record<string, unknown>).fullRow),
+    [renderFullRow],
+  );
 
-  const totalPages = effectiveShouldPaginate
-    ? Math.ceil(sortedRows.length / rowsPerPage)
-    : 1;
+  // ============= Expandable Rows =============
 
-  // Clamp page to valid range — avoids setState-during-render
-  const safePage = totalPages > 0 ? Math.min(currentPage, totalPages) : 1;
+  // The single-row `expandedRowId` prop still controls expansion when
+  // `expandedRowIds` isn't passed.
+  const legacyExpandedRowIds = useMemo(
+    () =>
+      expandedRowId === undefined
+        ? undefined
+        : new Set(expandedRowId === null ? [] : [expandedRowId]),
+    [expandedRowId],
+  );
+  const [expandedRowIds, setExpandedRowIds] = useControllableState<Set<string>>(
+    controlledExpandedRowIds ?? legacyExpandedRowIds,
+    () => new Set(defaultExpandedRowIds),
+    onExpandedRowIdsChange,
+  );
+  const hasExpandedContent = typeof renderExpandedRow === "function";
+  const isExpanderColumnVisible = hasExpandedContent && showExpanderColumn;
 
-  const paginatedRows = useMemo(() => {
-    if (!effectiveShouldPaginate) return sortedRows;
-    const startIndex = (safePage - 1) * rowsPerPage;
-    return sortedRows.slice(startIndex, startIndex + rowsPerPage);
-  }, [sortedRows, safePage, rowsPerPage, effectiveShouldPaginate]);
+  const canExpandRow = (row: TableRow<TRow>) =>
+    hasExpandedContent &&
+    !isFullRow(row) &&
+    (isRowExpandable ? isRowExpandable(row) : true);
 
-  const handleSort = (key: string, isSortable?: boolean) => {
-    if (!isSortable) return;
-    let direction: "asc" | "desc" = "asc";
-    if (
-      sortConfig &&
-      sortConfig.key === key &&
-      sortConfig.direction === "asc"
-    ) {
-      direction = "desc";
-    }
-    setSortConfig({ key, direction });
-    setCurrentPage(1);
-  };
+  const toggleRowExpanded = (row: TableRow<TRow>) =>
+    setExpandedRowIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(row.id)) next.delete(row.id);
+      else next.add(row.id);
+      return next;
+    });
 
-  const autoSizeColumn = (colIndex: number, header: TableHeader) => {
-    if (!tableRef.current) return;
-    const tableEl = tableRef.current;
-    let maxWidth = measureTextWidth(header?.label || "");
+  const expandableRowIdsOnPage = paginatedRows
+    .filter(canExpandRow)
+    .map((row) => row.id);
+  const isPageExpanded =
+    expandableRowIdsOnPage.length > 0 &&
+    expandableRowIdsOnPage.every((id) => expandedRowIds.has(id));
 
-    const collectCellWidth = (cell: HTMLTableCellElement | null) => {
-      if (!cell) return;
-      const scrollWidth = cell.scrollWidth || cell.offsetWidth || 0;
-      const style = window.getComputedStyle(cell);
-      const borderWidth =
-        parseFloat(style.borderLeftWidth || "0") +
-        parseFloat(style.borderRightWidth || "0");
-      maxWidth = Math.max(maxWidth, Math.ceil(scrollWidth + borderWidth));
-    };
+  const togglePageExpanded = () =>
+    setExpandedRowIds((prev) => {
+      const next = new Set(prev);
+      expandableRowIdsOnPage.forEach((id) => {
+        if (isPageExpanded) next.delete(id);
+        else next.add(id);
+      });
+      return next;
+    });
 
-    const headerCell =
-      tableEl.tHead?.rows?.[0]?.cells?.[colIndex] ||
-      tableEl.querySelector(`thead th:nth-child(${colIndex + 1})`);
-    collectCellWidth(headerCell as HTMLTableCellElement);
+  // ============= Selection =============
+
+  const [selectedRowIds, setSelectedRowIds] = useControllableState<Set<string>>(
+    controlledSelectedRowIds,
+    () => new Set(defaultSelectedRowIds),
+    onSelectionChange,
+  );
+  const selectionAnchorRef = useRef<string | null>(null);
+  const isSelectionEnabled = selectionMode !== "none";
 
-    const bodyRows = tableEl.tBodies?.[0]?.rows || [];
-    for (const row of bodyRows) {
-      collectCellWidth(row.cells?.[colIndex] as HTMLTableCellElement);
+  const canSelectRow = (row: TableRow<TRow>) =>
+    !isFullRow(row) && (!isRowSelectable || isRowSelectable(row));
+
+  const toggleRowSelection = (row: TableRow<TRow>, shiftKey: boolean) => {
+    const willSelect = !selectedRowIds.has(row.id);
+    if (selectionMode === "single") {
+      setSelectedRowIds(willSelect ? new Set([row.id]) : new Set());
+      selectionAnchorRef.current = row.id;
+      return;
     }
 
-    rows.forEach((r) => {
-      maxWidth = Math.max(
-        maxWidth,
-        Math.ceil(measureTextWidth(r[header.accessor])),
+    let targetIds = [row.id];
+    const anchorId = selectionAnchorRef.current;
+    if (shiftKey && anchorId && anchorId !== row.id) {
+      const from = sortedRows.findIndex((r) => r.id === anchorId);
+      const to = sortedRows.findIndex((r) => r.id === row.id);
+      if (from !== -1 && to !== -1) {
+        targetIds = sortedRows
+          .slice(Math.min(from, to), Math.max(from, to) + 1)
+          .filter(canSelectRow)
+          .map((r) => r.id);
+      }
+    }
+    setSelectedRowIds((prev) => {
+      const next = new Set(prev);
+      targetIds.forEach((id) => (willSelect ? next.add(id) : next.delete(id)));
+      return next;
+    });
+    selectionAnchorRef.current = row.id;
+  };
+
+  // Manual mode only knows about the rows on the current page.
+  const selectAllRows = (
+    selectAllScope === "all" && !manual ? sortedRows : paginatedRows
+  ).filter(canSelectRow);
+  const selectedInScopeCount = selectAllRows.filter((r) =>
+    selectedRowIds.has(r.id),
+  ).length;
+  const isAllSelected =
+    selectAllRows.length > 0 && selectedInScopeCount === selectAllRows.length;
+
+  const toggleAllRowsSelection = () => {
+    setSelectedRowIds((prev) => {
+      const next = new Set(prev);
+      selectAllRows.forEach((r) =>
+        isAllSelected ? next.delete(r.id) : next.add(r.id),
       );
+      return next;
     });
+  };
+
+  const clearSelection = () => setSelectedRowIds(new Set());
+
+  const selectedRows = useMemo(
+    () => allRows.filter((r) => selectedRowIds.has(r.id)),
+    [allRows, selectedRowIds],
+  );
+
+  const showBulkActions =
+    typeof renderBulkActions === "function" && selectedRowIds.size > 0;
+
+  // ============= Export =============
 
-    const minWidthPx = parseWidthValue(
-      header?.minWidth,
-      parseWidthValue(minColWidth, 50),
+  const exportData = (options: ExportOptions) => {
+    const scope = options.scope ?? "all";
+    const source =
+      scope === "page"
+        ? paginatedRows
+        : scope === "selected"
+          ? sortedRows.filter((r) => selectedRowIds.has(r.id))
+          : sortedRows;
+    return exportRows(
+      source.filter((r) => !isFullRow(r)),
+      headers,
+      { filename: exportFilename, ...options },
     );
-    const finalWidth = Math.max(maxWidth + 12, minWidthPx);
-    setColumnWidths((prev) => ({
-      ...prev,
-      [header.accessor]: `${finalWidth}px`,
-    }));
-  };
-
-  const resetColumnWidth = (accessor: string) => {
-    const regularWidth = initialColumnWidthsRef.current[accessor];
-    setColumnWidths((prev) => {
-      if (regularWidth === undefined) {
-        const next = { ...prev };
-        delete next[accessor];
-        return next;
+  };
+
+  const showExportMenu = exportFormats.length > 0;
+
+  // ============= Inline Editing =============
+
+  const [editing, setEditingState] = useState<EditingCell | null>(null);
+  const editingRef = useRef<EditingCell | null>(null);
+  const setEditing = (next: EditingCell | null) => {
+    editingRef.current = next;
+    setEditingState(next);
+  };
+
+  const rowsById = useMemo(
+    () => new Map(allRows.map((row) => [row.id, row])),
+    [allRows],
+  );
+
+  const getEditorType = (header: TableHeader<TRow>): EditorType =>
+    typeof header.editor === "string" ? header.editor : "text";
+
+  const isCellEditable = (row: TableRow<TRow>, header: TableHeader<TRow>) => {
+    if (isFullRow(row) || !header.editable) return false;
+    const editable = header.editable as
+      | boolean
+      | ((row: TableRow<TRow>) => boolean);
+    return typeof editable === "function" ? editable(row) : editable;
+  };
+
+  const focusCell = (rowId: string, accessor: string) => {
+    const cells =
+      tbodyRef.current?.querySelectorAll<HTMLElement>("td[data-accessor]") ||
+      [];
+    for (const cell of cells) {
+      if (cell.dataset.rowId === rowId && cell.dataset.accessor === accessor) {
+        cell.focus();
+        return;
       }
-      return { ...prev, [accessor]: regularWidth };
+    }
+  };
+
+  const startEdit = (row: TableRow<TRow>, header: TableHeader<TRow>) => {
+    if (!isCellEditable(row, header) || editingRef.current?.pending) return;
+    const value = getAccessorValue(row, header.accessor);
+    setEditing({
+      rowId: row.id,
+      accessor: header.accessor,
+      draft:
+        typeof header.editor === "function"
+          ? value
+          : toEditorDraft(getEditorType(header), value),
+      error: null,
+      pending: false,
     });
   };
 
-  const handleHeaderClick = (header: TableHeader, colIndex: number) => {
-    if (suppressHeaderClickRef.current) {
-      suppressHeaderClickRef.current = false;
+  const cancelEdit = () => {
+    const current = editingRef.current;
+    if (!current || current.pending) return;
+    setEditing(null);
+    focusCell(current.rowId, current.accessor);
+  };
+
+  // Next/previous editable cell on the current page, row by row.
+  const findAdjacentEditableCell = (
+    rowId: string,
+    accessor: string,
+    direction: 1 | -1,
+  ) => {
+    const cells: Array<[TableRow<TRow>, TableHeader<TRow>]> = [];
+    paginatedRows.forEach((row) => {
+      headers.forEach((header) => {
+        if (isCellEditable(row, header)) cells.push([row, header]);
+      });
+    });
+    const idx = cells.findIndex(
+      ([row, header]) => row.id === rowId && header.accessor === accessor,
+    );
+    return idx === -1 ? undefined : cells[idx + direction];
+  };
+
+  const finishEdit = (current: EditingCell, move?: 1 | -1) => {
+    const next = move
+      ? findAdjacentEditableCell(current.rowId, current.accessor, move)
+      : undefined;
+    setEditing(null);
+    if (next) {
+      startEdit(next[0], next[1]);
+      return;
+    }
+    focusCell(current.rowId, current.accessor);
+  };
+
+  const commitEdit = async (move?: 1 | -1, draftOverride?: any) => {
+    const current = editingRef.current;
+    if (!current || current.pending) return;
+    const row = rowsById.get(current.rowId);
+    const header = headers.find((h) => h.accessor === current.accessor);
+    if (!row || !header) {
+      setEditing(null);
       return;
     }
 
-    if (mobileAutoSizeOnHeaderClick && isMobile) {
-      const isExpanded = expandedColumns.has(header.accessor);
-      if (isExpanded) {
-        resetColumnWidth(header.accessor);
-        setExpandedColumns((prev) => {
-          const next = new Set(prev);
-          next.delete(header.accessor);
-          return next;
-        });
-      } else {
-        autoSizeColumn(colIndex, header);
-        setExpandedColumns((prev) => {
-          const next = new Set(prev);
-          next.add(header.accessor);
-          return next;
-        });
+    const draft = draftOverride !== undefined ? draftOverride : current.draft;
+    const newValue =
+      typeof header.editor === "function"
+        ? draft
+        : fromEditorDraft(getEditorType(header), draft, header.editorOptions);
+    const oldValue = getAccessorValue(row, header.accessor);
+
+    const validate = header.validate as
+      | ((value: any, row: TableRow<TRow>) => string | null | undefined)
+      | undefined;
+    const toErrorMessage = (err: unknown) =>
+      err instanceof Error ? err.message : String(err);
+
+    // Callers fire-and-forget this promise, so a synchronous throw from
+    // `validate` or `onCellEdit` must surface as a cell error, not a rejection.
+    let result: void | Promise<void>;
+    try {
+      const error = validate?.(newValue, row) || null;
+      if (error) {
+        setEditing({ ...current, draft, error });
+        return;
       }
+
+      if (Object.is(newValue, oldValue) || !onCellEdit) {
+        finishEdit(current, move);
+        return;
+      }
+
+      result = onCellEdit({
+        rowId: row.id,
+        accessor: header.accessor,
+        oldValue,
+        newValue,
+        row,
+      });
+    } catch (err) {
+      setEditing({
+        ...current,
+        draft,
+        pending: false,
+        error: toErrorMessage(err),
+      });
       return;
     }
-    handleSort(header.accessor, header.isSortable);
+    if (!result || typeof result.then !== "function") {
+      finishEdit(current, move);
+      return;
+    }
+
+    const pendingState = { ...current, draft, error: null, pending: true };
+    setEditing(pendingState);
+    try {
+      await result;
+      // Ignore if the user moved on while the commit was in flight.
+      if (editingRef.current === pendingState) finishEdit(current, move);
+    } catch (err) {
+      if (editingRef.current !== pendingState) return;
+      setEditing({
+        ...pendingState,
+        pending: false,
+        error: toErrorMessage(err),
+      });
+    }
+  };
+
+  const renderEditor = (row: TableRow<TRow>, header: TableHeader<TRow>) => {
+    const current = editing as EditingCell;
+    // Blur also fires when an editor unmounts after Tab/Escape moved editing
+    // elsewhere; only commit while this cell is still the one being edited.
+    const commitThisCell = (draft?: any) => {
+      const active = editingRef.current;
+      if (active?.rowId !== row.id || active.accessor !== header.accessor) {
+        return;
+      }
+      void commitEdit(undefined, draft);
+    };
+    const setDraft = (draft: any) =>
+      setEditing({ ...(editingRef.current || current), draft, error: null });
+    if (typeof header.editor === "function") {
+      return (header.editor as CustomEditor<TRow>)({
+        row,
+        value: current.draft,
+        onChange: setDraft,
+        commit: commitThisCell,
+        cancel: cancelEdit,
+        error: current.error,
+        pending: current.pending,
+      });
+    }
+    return (
+      <CellEditor
+        type={getEditorType(header)}
+        draft={current.draft}
+        options={header.editorOptions}
+        label={header.label}
+        error={current.error}
+        pending={current.pending}
+        onChange={setDraft}
+        onCommit={commitThisCell}
+        onCancel={cancelEdit}
+        onTab={(backward) => void commitEdit(backward ? -1 : 1)}
+      />
+    );
+  };
+
+  // Extra leading columns rendered before the header columns.
+  const expanderColIndex = isSelectionEnabled ? 1 : 0;
+  const leadingColumnCount =
+    expanderColIndex + (isExpanderColumnVisible ? 1 : 0);
+  const totalColumnCount = headers.length + leadingColumnCount;
+
+  // ============= Column Pinning =============
+
+  const leftPinnedCount = headers.filter(
+    (header) => resolveColumnPin(header, columnPinning) === "left",
+  ).length;
+  const rightPinnedCount = headers.filter(
+    (header) => resolveColumnPin(header, columnPinning) === "right",
+  ).length;
+  const hasPinnedColumns = leftPinnedCount + rightPinnedCount > 0;
+  // Leading columns stick along with left-pinned ones.
+  const stickyLeftCount =
+    leftPinnedCount > 0 ? leadingColumnCount + leftPinnedCount : 0;
+  const stickyRightStart = totalColumnCount - rightPinnedCount;
+  const showEmptyState = rows.length === 0 && !isFiltered && !loading;
+
+  // Append pages while the scroll area is near its end, which also fills a
+  // viewport that the loaded rows don't cover yet.
+  useEffect(() => {
+    const el = scrollAreaRef.current;
+    if (paginationMode !== "infinite" || !hasMore || loading || !el) {
+      return undefined;
+    }
+    const handleScroll = () => {
+      const remaining = el.scrollHeight - el.scrollTop - el.clientHeight;
+      if (remaining <= INFINITE_SCROLL_THRESHOLD) loadMore();
+    };
+    handleScroll();
+    el.addEventListener("scroll", handleScroll, { passive: true });
+    return () => el.removeEventListener("scroll", handleScroll);
+  }, [paginationMode, hasMore, loading, loadMore, pageItems]);
+
+  // Sticky offset of each pinned column from its edge, by grid column.
+  const [pinOffsets, setPinOffsets] = useState<number[]>([]);
+  const [scrollShadows, setScrollShadows] = useState({
+    left: false,
+    right: false,
+  });
+
+  const updateScrollShadows = () => {
+    const el = scrollAreaRef.current;
+    if (!el) return;
+    // RTL scroll positions run from 0 down to negative values.
+    const scrolled = Math.abs(el.scrollLeft);
+    const left = scrolled > 0;
+    const right = scrolled + el.clientWidth < el.scrollWidth - 1;
+    setScrollShadows((prev) =>
+      prev.left === left && prev.right === right ? prev : { left, right },
+    );
+  };
+
+  const measurePinOffsets = () => {
+    const cells = tableRef.current?.tHead?.rows[0]?.cells;
+    if (!cells) return;
+    const widths = Array.from(cells, (cell) => cell.offsetWidth);
+    const offsets: number[] = Array(totalColumnCount).fill(0);
+    let left = 0;
+    for (let col = 0; col < stickyLeftCount; col++) {
+      offsets[col] = left;
+      left += widths[col] ?? 0;
+    }
+    let right = 0;
+    for (let col = totalColumnCount - 1; col >= stickyRightStart; col--) {
+      offsets[col] = right;
+      right += widths[col] ?? 0;
+    }
+    setPinOffsets((prev) =>
+      prev.length === offsets.length &&
+      prev.every((offset, col) => offset === offsets[col])
+        ? prev
+        : offsets,
+    );
+    updateScrollShadows();
+  };
+
+  // Widths come from the rendered header so percentage and auto widths work;
+  // re-measure whenever the table resizes, e.g. during an `apt-resizer` drag.
+  useIsomorphicLayoutEffect(() => {
+    if (!hasPinnedColumns || showEmptyState) return undefined;
+    measurePinOffsets();
+    const table = tableRef.current;
+    if (!table || typeof ResizeObserver === "undefined") return undefined;
+    const observer = new ResizeObserver(() => measurePinOffsets());
+    observer.observe(table);
+    return () => observer.disconnect();
+  }, [
+    hasPinnedColumns,
+    showEmptyState,
+    headers,
+    columnWidths,
+    leadingColumnCount,
+  ]);
+
+  const getPinClassName = (className: string, col: number) => {
+    if (col < stickyLeftCount) {
+      return `${className} apt-pinned apt-pinned-left${
+        col === stickyLeftCount - 1 ? " apt-pinned-edge" : ""
+      }`;
+    }
+    if (col >= stickyRightStart) {
+      return `${className} apt-pinned apt-pinned-right${
+        col === stickyRightStart ? " apt-pinned-edge" : ""
+      }`;
+    }
+    return className;
+  };
+
+  // "left" and "right" pins sit at the inline start and end, so they swap
+  // sides in RTL along with the column order.
+  const getPinStyle = (col: number): CSSProperties | undefined => {
+    if (col < stickyLeftCount)
+      return { insetInlineStart: pinOffsets[col] ?? 0 };
+    if (col >= stickyRightStart) {
+      return { insetInlineEnd: pinOffsets[col] ?? 0 };
+    }
+    return undefined;
   };
 
+  const showSkeletonRows = loading && pageItems.length === 0;
+  const skeletonRowCount = Math.min(rowsPerPage, 10);
+
   const getSortIcon = (key: string): React.ReactNode => {
     if (mobileAutoSizeOnHeaderClick && isMobile) return null;
-    if (!sortConfig || sortConfig.key !== key) {
+    const priority = sort.findIndex((s) => s.key === key);
+    if (priority === -1) {
       return <SortIcon className="apt-sort-icon" />;
     }
-    return sortConfig.direction === "asc" ? (
-      <SortUpIcon className="apt-sort-icon apt-sort-icon-active" />
-    ) : (
-      <SortDownIcon className="apt-sort-icon apt-sort-icon-active" />
+    return (
+      <>
+        {sort[priority].direction === "asc" ? (
+          <SortUpIcon className="apt-sort-icon apt-sort-icon-active" />
+        ) : (
+          <SortDownIcon className="apt-sort-icon apt-sort-icon-active" />
+        )}
+        {sort.length > 1 && (
+          <span className="apt-sort-priority">{priority + 1}</span>
+        )}
+      </>
+    );
+  };
+
+  // ============= Column Reordering =============
+
+  const [columnDrag, setColumnDrag] = useState<{
+    accessor: string;
+    target: string | null;
+    placement: DropPlacement;
+  } | null>(null);
+
+  const canReorderColumn = (header: TableHeader<TRow>) =>
+    enableColumnReorder && header.reorderable !== false;
+
+  const reorderColumn = (
+    accessor: string,
+    target: string,
+    placement: DropPlacement,
+  ) => {
+    // Keep saved positions of columns that aren't currently rendered.
+    const current = [
+      ...columnOrder,
+      ...orderedHeaders
+        .map((header) => header.accessor)
+        .filter((key) => !columnOrder.includes(key)),
+    ];
+    const next = moveColumn(current, accessor, target, placement);
+    if (next === current) return false;
+    setColumnOrder(next);
+    const label = headers.find((h) => h.accessor === accessor)?.label;
+    setAnnouncement(t("columnMoved", { column: label ?? accessor }));
+    return true;
+  };
+
+  // Keyboard reordering swaps with the neighbour inside the same pin group.
+  const moveColumnBy = (col: number, delta: number) => {
+    const header = headers[col - leadingColumnCount];
+    const neighbour = headers[col - leadingColumnCount + delta];
+    if (!header || !neighbour || !canReorderColumn(header)) return false;
+    if (
+      resolveColumnPin(header, columnPinning) !==
+      resolveColumnPin(neighbour, columnPinning)
+    ) {
+      return false;
+    }
+    return reorderColumn(
+      header.accessor,
+      neighbour.accessor,
+      delta < 0 ? "before" : "after",
     );
   };
 
-  const handleMouseDown = (e: React.MouseEvent, accessor: string) => {
+  const handleColumnDragStart = (e: React.PointerEvent, accessor: string) => {
+    if (e.button !== 0) return;
     e.preventDefault();
+    e.stopPropagation();
     suppressHeaderClickRef.current = true;
-    const startX = e.clientX;
-    const th = (e.target as HTMLElement).closest("th");
-    if (!th) return;
-
     const header = headers.find((h) => h.accessor === accessor);
-    const minResizeWidth = parseWidthValue(header?.minWidth, minColWidth);
-
-    const startWidth = th.offsetWidth;
+    if (!header) return;
+    const pin = resolveColumnPin(header, columnPinning);
+    let drop: { target: string; placement: DropPlacement } | null = null;
 
-    document.body.style.cursor = "col-resize";
+    document.body.style.cursor = "grabbing";
     document.body.style.userSelect = "none";
+    setColumnDrag({ accessor, target: null, placement: "before" });
 
-    const handleMouseMove = (moveEvent: MouseEvent) => {
-      const deltaX = moveEvent.clientX - startX;
-      const newWidth = startWidth + deltaX;
-      const finalWidth = Math.max(newWidth, minResizeWidth);
-
-      setColumnWidths((prev) => ({
-        ...prev,
-        [accessor]: `${finalWidth}px`,
-      }));
+    const handlePointerMove = (moveEvent: PointerEvent) => {
+      const th = document
+        .elementFromPoint(moveEvent.clientX, moveEvent.clientY)
+        ?.closest<HTMLElement>("thead th[data-accessor]");
+      const target = headers.find((h) => h.accessor === th?.dataset.accessor);
+      drop = null;
+      if (
+        th &&
+        target &&
+        target.accessor !== accessor &&
+        tableRef.current?.contains(th) &&
+        resolveColumnPin(target, columnPinning) === pin
+      ) {
+        const rect = th.getBoundingClientRect();
+        const isStartHalf =
+          moveEvent.clientX < rect.left + rect.width / 2 !== isRtl;
+        drop = {
+          target: target.accessor,
+          placement: isStartHalf ? "before" : "after",
+        };
+      }
+      setColumnDrag({
+        accessor,
+        target: drop?.target ?? null,
+        placement: drop?.placement ?? "before",
+      });
     };
 
-    const handleMouseUp = () => {
+    const handlePointerEnd = (endEvent: PointerEvent) => {
       document.body.style.cursor = "";
       document.body.style.userSelect = "";
-      document.removeEventListener("mousemove", handleMouseMove);
-      document.removeEventListener("mouseup", handleMouseUp);
+      document.removeEventListener("pointermove", handlePointerMove);
+      document.removeEventListener("pointerup", handlePointerEnd);
+      document.removeEventListener("pointercancel", handlePointerEnd);
+      setColumnDrag(null);
+      if (endEvent.type === "pointerup" && drop) {
+        reorderColumn(accessor, drop.target, drop.placement);
+      }
 
       // Clear the one-shot suppression after click dispatch for this gesture.
       window.setTimeout(() => {
@@ -434,10 +1711,716 @@ const Table: React.FC<TableProps> = ({
       }, 0);
     };
 
-    document.addEventListener("mousemove", handleMouseMove);
+    document.addEventListener("pointermove", handlePointerMove);
+    document.addEventListener("pointerup", handlePointerEnd);
+    document.addEventListener("pointercancel", handlePointerEnd);
+  };
+
+  // ============= Keyboard Navigation & Announcements =============
+
+  const handleGridActivate = (
+    { row: rowIndex, col }: GridPosition,
+    e: React.KeyboardEvent,
+  ) => {
+    const headerIndex = col - leadingColumnCount;
+    const isExpanderCol = isExpanderColumnVisible && col === expanderColIndex;
+    if (rowIndex === -1) {
+      if (e.key === "F2") return;
+      if (isExpanderCol) {
+        togglePageExpanded();
+        return;
+      }
+      if (headerIndex < 0) {
+        if (selectionMode === "multi") toggleAllRowsSelection();
+        return;
+      }
+      table.activateHeader(headers[headerIndex].accessor, e.shiftKey);
+      return;
+    }
+
+    const item = pageItems[rowIndex];
+    if (!item) return;
+    if (item.type === "group") {
+      if (e.key !== "F2") toggleGroups([item.group.id]);
+      return;
+    }
+    const row = item.row;
+    if (isExpanderCol) {
+      if (e.key !== "F2" && canExpandRow(row)) toggleRowExpanded(row);
+      return;
+    }
+    const header = headers[headerIndex];
+    if (header && isCellEditable(row, header) && e.key !== " ") {
+      startEdit(row, header);
+      return;
+    }
+    if (e.key === "F2") return;
+    if (e.key === " " && isSelectionEnabled && canSelectRow(row)) {
+      toggleRowSelection(row, e.shiftKey);
+      return;
+    }
+    onRowClick?.(row);
+  };
+
+  const grid = useGridNavigation({
+    rowCount: pageItems.length,
+    colCount: totalColumnCount,
+    getRowColCount: (rowIndex) => {
+      const item = pageItems[rowIndex];
+      if (!item) return totalColumnCount;
+      return item.type === "group" || isFullRow(item.row)
+        ? 1
+        : totalColumnCount;
+    },
+    gridRef: tableRef,
+    onActivate: handleGridActivate,
+    onPageStep: (delta) => {
+      if (!effectiveShouldPaginate) return false;
+      const nextPage = Math.min(totalPages, Math.max(1, safePage + delta));
+      if (nextPage === safePage) return false;
+      setCurrentPage(nextPage);
+      return true;
+    },
+    onHeaderResize: (col, delta) => {
+      const header = headers[col - leadingColumnCount];
+      if (header) resizeColumnBy(header.accessor, delta);
+    },
+    onHeaderMove: moveColumnBy,
+    direction,
+    ensureRowVisible: (rowIndex) => {
+      if (virtualized) scrollRowIntoView(rowIndex);
+    },
+    pageJump: 10,
+  });
+
+  const [announcement, setAnnouncement] = useState("");
+  const announcedSortRef = useRef(sort);
+  const announcedPageRef = useRef(safePage);
+
+  useEffect(() => {
+    if (announcedSortRef.current === sort) return;
+    announcedSortRef.current = sort;
+    const labelFor = (key: string) =>
+      headers.find((h) => h.accessor === key)?.label ?? key;
+    setAnnouncement(
+      sort.length === 0
+        ? t("sortCleared")
+        : t("sortedBy", {
+            columns: sort
+              .map((s) =>
+                t(s.direction === "asc" ? "sortAscending" : "sortDescending", {
+                  column: labelFor(s.key),
+                }),
+              )
+              .join(t("sortSeparator")),
+          }),
+    );
+  }, [sort, headers]);
+
+  useEffect(() => {
+    if (announcedPageRef.current === safePage) return;
+    announcedPageRef.current = safePage;
+    setAnnouncement(
+      effectiveShouldPaginate
+        ? t("pageStatus", { page: safePage, pageCount: totalPages })
+        : t("rangeSummary", {
+            start: visibleRange.start,
+            end: visibleRange.end,
+            total: totalCount,
+          }),
+    );
+  }, [safePage, totalPages]);
+
+  // ============= Cell Range & Clipboard =============
+
+  const [rangeEnd, setRangeEnd] = useState<RangeEnd | null>(null);
+  const isRangeDraggingRef = useRef(false);
+
+  const isRangeCell = (rowIndex: number, col: number) => {
+    const item = pageItems[rowIndex];
+    return (
+      item?.type === "row" && !isFullRow(item.row) && col >= leadingColumnCount
+    );
+  };
+
+  // Data rows (excluding full-width rows) among the given page items.
+  const getRangeRows = (items: DisplayRow<TRow>[]) =>
+    items.flatMap((item) =>
+      item.type === "row" && !isFullRow(item.row) ? [item.row] : [],
+    );
+
+  // Range in page-row / header indices, or the focused cell on its own.
+  const getRangeBounds = (): CellRangeBounds | null => {
+    const { row, col } = grid.focused;
+    if (!isRangeCell(row, col)) return null;
+    const end =
+      rangeEnd && rangeEnd.anchorRow === row && rangeEnd.anchorCol === col
+        ? rangeEnd
+        : { row, col };
+    const endRow = clamp(end.row, 0, pageItems.length - 1);
+    const endCol = clamp(end.col, leadingColumnCount, totalColumnCount - 1);
+    return {
+      top: Math.min(row, endRow),
+      bottom: Math.max(row, endRow),
+      left: Math.min(col, endCol) - leadingColumnCount,
+      right: Math.max(col, endCol) - leadingColumnCount,
+    };
+  };
+
+  const rangeBounds = cellRangeSelection ? getRangeBounds() : null;
+  const hasMultiCellRange =
+    rangeBounds !== null &&
+    (rangeBounds.top !== rangeBounds.bottom ||
+      rangeBounds.left !== rangeBounds.right);
+
+  const handleCellMouseDown = (
+    e: React.MouseEvent<HTMLElement>,
+    rowIndex: number,
+    col: number,
+  ) => {
+    if (!cellRangeSelection || e.button !== 0 || isFromCellContent(e.target)) {
+      return;
+    }
+    // Suppress native text selection; focus the cell ourselves instead.
+    e.preventDefault();
+    const { row: anchorRow, col: anchorCol } = grid.focused;
+    if (e.shiftKey && isRangeCell(anchorRow, anchorCol)) {
+      setRangeEnd({ anchorRow, anchorCol, row: rowIndex, col });
+      return;
+    }
+    e.currentTarget.focus();
+    setRangeEnd({ anchorRow: rowIndex, anchorCol: col, row: rowIndex, col });
+    isRangeDraggingRef.current = true;
+    const handleMouseUp = () => {
+      isRangeDraggingRef.current = false;
+      document.removeEventListener("mouseup", handleMouseUp);
+    };
     document.addEventListener("mouseup", handleMouseUp);
   };
 
+  const handleCellMouseEnter = (rowIndex: number, col: number) => {
+    if (!isRangeDraggingRef.current) return;
+    setRangeEnd((prev) => prev && { ...prev, row: rowIndex, col });
+  };
+
+  const handleTableKeyDown = (e: React.KeyboardEvent) => {
+    const arrowDelta = ARROW_DELTAS[e.key];
+    const delta: [number, number] | undefined =
+      arrowDelta && isRtl ? [arrowDelta[0], -arrowDelta[1]] : arrowDelta;
+    const { row, col } = grid.focused;
+    const isOnCell = (e.target as HTMLElement).dataset.aptCol !== undefined;
+
+    // Treegrid: Right expands and Left collapses (mirrored in RTL) before
+    // moving focus.
+    const treeItem = pageItems[row];
+    if (
+      isTree &&
+      isOnCell &&
+      treeItem?.type === "row" &&
+      headers[col - leadingColumnCount]?.accessor === treeAccessor &&
+      (e.key === "ArrowRight" || e.key === "ArrowLeft") &&
+      !e.shiftKey &&
+      !e.altKey &&
+      isTreeRowExpandable(treeItem.row) &&
+      expandedIds.has(treeItem.row.id) ===
+        (e.key === (isRtl ? "ArrowRight" : "ArrowLeft"))
+    ) {
+      toggleTreeRow(treeItem.row);
+      e.preventDefault();
+      return;
+    }
+
+    const isOnRangeCell =
+      cellRangeSelection &&
+      (e.target as HTMLElement).dataset.aptCol !== undefined &&
+      isRangeCell(row, col);
+
+    if (isOnRangeCell && delta && e.shiftKey && !e.altKey) {
+      const current =
+        rangeEnd && rangeEnd.anchorRow === row && rangeEnd.anchorCol === col
+          ? rangeEnd
+          : { row, col };
+      const nextRow = clamp(current.row + delta[0], 0, pageItems.length - 1);
+      setRangeEnd({
+        anchorRow: row,
+        anchorCol: col,
+        row: nextRow,
+        col: clamp(
+          current.col + delta[1],
+          leadingColumnCount,
+          totalColumnCount - 1,
+        ),
+      });
+      if (virtualized) scrollRowIntoView(nextRow);
+      e.preventDefault();
+      return;
+    }
+    if (isOnRangeCell && e.key === "Escape" && hasMultiCellRange) {
+      setRangeEnd(null);
+      e.preventDefault();
+      return;
+    }
+    grid.handleKeyDown(e);
+  };
+
+  const handleCopy = (e: React.ClipboardEvent) => {
+    if (!rangeBounds || isFromCellContent(e.target)) return;
+    const cells = getRangeText(
+      getRangeRows(pageItems.slice(rangeBounds.top, rangeBounds.bottom + 1)),
+      headers.slice(rangeBounds.left, rangeBounds.right + 1),
+    );
+    e.clipboardData.setData("text/plain", toClipboardTSV(cells));
+    e.clipboardData.setData("text/html", toClipboardHTML(cells));
+    e.preventDefault();
+    const count = cells.reduce((sum, line) => sum + line.length, 0);
+    setAnnouncement(t("cellsCopied", { count }));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    if (!onPaste || isFromCellContent(e.target)) return;
+    const bounds = getRangeBounds();
+    const text = e.clipboardData.getData("text/plain");
+    if (!bounds || !text) return;
+    e.preventDefault();
+
+    // A single copied value fills the whole selected range, like Excel.
+    const matrix = parseTSV(text);
+    const isFill =
+      matrix.length === 1 && matrix[0].length === 1 && hasMultiCellRange;
+    // Clipboard lines map onto data rows, skipping group and full rows.
+    const targetRows = getRangeRows(
+      pageItems.slice(bounds.top, isFill ? bounds.bottom + 1 : undefined),
+    );
+    const rowSpan = isFill ? targetRows.length : matrix.length;
+    const colSpan = isFill
+      ? bounds.right - bounds.left + 1
+      : Math.max(...matrix.map((line) => line.length));
+
+    const changes: CellPasteChange<TRow>[] = [];
+    let skipped = 0;
+    for (let r = 0; r < rowSpan; r++) {
+      const row = targetRows[r];
+      if (!row) break;
+      for (let c = 0; c < colSpan; c++) {
+        const header = headers[bounds.left + c];
+        const raw = isFill ? matrix[0][0] : matrix[r][c];
+        if (!header || raw === undefined) continue;
+        if (!isCellEditable(row, header)) {
+          skipped++;
+          continue;
+        }
+        const value =
+          typeof header.editor === "function"
+            ? raw
+            : fromEditorDraft(getEditorType(header), raw, header.editorOptions);
+        const validate = header.validate as
+          | ((value: any, row: TableRow<TRow>) => string | null | undefined)
+          | undefined;
+        if (validate?.(value, row)) {
+          skipped++;
+          continue;
+        }
+        changes.push({
+          rowId: row.id,
+          accessor: header.accessor,
+          value,
+          oldValue: getAccessorValue(row, header.accessor),
+          row,
+        });
+      }
+    }
+
+    if (changes.length > 0) onPaste(changes);
+    setAnnouncement(
+      t("cellsPasted", { count: changes.length }) +
+        (skipped > 0 ? t("cellsSkipped", { count: skipped }) : ""),
+    );
+  };
+
+  const headerRowCount = isFilterRowVisible ? 2 : 1;
+  // Display indices are absolute, except in manual mode where only the
+  // current page is known.
+  const ariaRowIndexBase =
+    headerRowCount +
+    (manual && effectiveShouldPaginate ? (safePage - 1) * rowsPerPage : 0) +
+    1;
+
+  const hasAggregates = headers.some((h) => h.aggregate !== undefined);
+
+  // Grid cells manage focus themselves; cards need a tabbable toggle.
+  const renderTreeToggle = (row: TableRow<TRow>, focusable = false) => {
+    if (!isTreeRowExpandable(row)) {
+      return <span className="apt-tree-spacer" aria-hidden="true" />;
+    }
+    const isExpanded = expandedIds.has(row.id);
+    return (
+      <button
+        type="button"
+        className="apt-tree-toggle"
+        tabIndex={focusable ? undefined : -1}
+        aria-label={t(isExpanded ? "collapseRow" : "expandRow")}
+        aria-expanded={isExpanded}
+        onClick={(e) => {
+          e.stopPropagation();
+          toggleTreeRow(row);
+        }}
+      >
+        {loadingChildIds.has(row.id) ? (
+          <span className="apt-spinner apt-tree-spinner" />
+        ) : (
+          <ChevronIcon
+            className={`apt-tree-chevron${
+              isExpanded ? " apt-tree-chevron-open" : ""
+            }`}
+          />
+        )}
+      </button>
+    );
+  };
+
+  const renderExpanderCell = (row: TableRow<TRow>, rowIndex: number) => {
+    const isExpanded = expandedRowIds.has(row.id);
+    return (
+      <td
+        className={getPinClassName(
+          "apt-td apt-expander-cell",
+          expanderColIndex,
+        )}
+        style={getPinStyle(expanderColIndex)}
+        onClick={(e) => e.stopPropagation()}
+        data-apt-row={rowIndex}
+        data-apt-col={expanderColIndex}
+        tabIndex={grid.getTabIndex(rowIndex, expanderColIndex)}
+      >
+        {canExpandRow(row) && (
+          <button
+            type="button"
+            className="apt-expander-toggle"
+            tabIndex={-1}
+            aria-label={t(isExpanded ? "collapseDetails" : "expandDetails")}
+            aria-expanded={isExpanded}
+            onClick={() => toggleRowExpanded(row)}
+          >
+            <ChevronIcon
+              className={`apt-tree-chevron${
+                isExpanded ? " apt-tree-chevron-open" : ""
+              }`}
+            />
+          </button>
+        )}
+      </td>
+    );
+  };
+
+  // ============= Footer =============
+
+  const isFooterVisible =
+    showFooter ??
+    headers.some(
+      (h) =>
+        h.footer !== undefined ||
+        h.footerRenderer !== undefined ||
+        h.aggregate !== undefined,
+    );
+
+  // Manual mode only has the current page of rows to aggregate. Tree data
+  // counts top-level rows only, so expanding a node doesn't change totals.
+  const footerRows = useMemo(
+    () =>
+      (footerScope === "page" ? paginatedRows : sortedRows).filter(
+        (row) => !isFullRow(row) && row.parentId === undefined,
+      ),
+    [footerScope, paginatedRows, sortedRows, isFullRow],
+  );
+
+  const footerValues = useMemo(
+    () =>
+      isFooterVisible
+        ? headers.map((header) =>
+            header.aggregate !== undefined
+              ? computeAggregate(
+                  header.aggregate as Aggregate<TRow>,
+                  footerRows,
+                  header.accessor,
+                )
+              : undefined,
+          )
+        : [],
+    [isFooterVisible, headers, footerRows],
+  );
+
+  const renderFooterCell = (header: TableHeader<TRow>, idx: number) => {
+    const value = footerValues[idx];
+    if (header.footerRenderer) {
+      return header.footerRenderer({ value, rows: footerRows });
+    }
+    if (header.footer !== undefined) return header.footer;
+    return header.aggregate !== undefined
+      ? formatAggregate(value, header.aggregateFormat, localization.locale)
+      : null;
+  };
+
+  // Label, value, row count and continuation marker of a group header.
+  const renderGroupSummary = ({
+    group,
+    continued,
+  }: Extract<DisplayRow<TRow>, { type: "group" }>) => {
+    const header = headers.find((h) => h.accessor === group.accessor);
+    const cellRenderer = header?.cellRenderer as CellRenderer<TRow> | undefined;
+    const isEmptyValue =
+      group.value === null || group.value === undefined || group.value === "";
+    const valueContent = isEmptyValue
+      ? t("groupEmptyValue")
+      : cellRenderer
+        ? cellRenderer({ row: group.rows[0], value: group.value })
+        : group.value instanceof Date
+          ? group.value.toLocaleDateString(localization.locale)
+          : String(group.value);
+
+    return (
+      <>
+        <span className="apt-group-label">
+          {header?.label ?? group.accessor}:
+        </span>{" "}
+        <span className="apt-group-value">{valueContent}</span>{" "}
+        <span className="apt-group-count">
+          ({formatNumber(group.rows.length)})
+        </span>
+        {continued && (
+          <span className="apt-group-continued"> {t("groupContinued")}</span>
+        )}
+      </>
+    );
+  };
+
+  const renderGroupAggregate = (
+    header: TableHeader<TRow>,
+    rows: TableRow<TRow>[],
+  ) =>
+    header.aggregate !== undefined &&
+    formatAggregate(
+      computeAggregate(
+        header.aggregate as Aggregate<TRow>,
+        rows,
+        header.accessor,
+      ),
+      header.aggregateFormat,
+      localization.locale,
+    );
+
+  const renderGroupRow = (
+    item: Extract<DisplayRow<TRow>, { type: "group" }>,
+    rowIndex: number,
+  ) => {
+    const { group, continued } = item;
+    const isCollapsed = isGroupCollapsed(group.id);
+    // The label cell spans the first column, so its aggregate goes inline.
+    const firstHeader = headers[0];
+
+    return (
+      <tr
+        key={`group-${group.id}${continued ? "-continued" : ""}`}
+        className={`apt-group-row${continued ? " apt-group-row-continued" : ""}`}
+        onClick={() => toggleGroups([group.id])}
+        data-apt-index={rowIndex}
+        aria-rowindex={ariaRowIndexBase + item.displayIndex}
+        aria-expanded={!isCollapsed}
+      >
+        <td
+          className={
+            hasAggregates
+              ? getPinClassName("apt-td apt-group-cell", leadingColumnCount)
+              : "apt-td apt-group-cell"
+          }
+          colSpan={hasAggregates ? leadingColumnCount + 1 : totalColumnCount}
+          style={
+            {
+              "--apt-group-depth": group.depth,
+              ...(hasAggregates && stickyLeftCount > 0
+                ? { insetInlineStart: 0 }
+                : {}),
+            } as CSSProperties
+          }
+          data-apt-row={rowIndex}
+          data-apt-col={0}
+          tabIndex={grid.getTabIndex(rowIndex, 0)}
+        >
+          <ChevronIcon
+            className={`apt-group-chevron${isCollapsed ? "" : " apt-group-chevron-open"}`}
+          />
+          {renderGroupSummary(item)}
+          {firstHeader?.aggregate !== undefined && (
+            <span className="apt-group-aggregate apt-group-aggregate-inline">
+              {renderGroupAggregate(firstHeader, group.rows)}
+            </span>
+          )}
+        </td>
+        {hasAggregates &&
+          headers.slice(1).map((h, idx) => (
+            <td
+              key={`${group.id}-${h.accessor}`}
+              className={getPinClassName(
+                "apt-td apt-group-aggregate",
+                idx + leadingColumnCount + 1,
+              )}
+              style={getPinStyle(idx + leadingColumnCount + 1)}
+            >
+              {renderGroupAggregate(h, group.rows)}
+            </td>
+          ))}
+      </tr>
+    );
+  };
+
+  // ============= Mobile Cards =============
+
+  const isCardLayout = mobileLayout === "cards" && isMobile;
+
+  const cardHeaders = useMemo(
+    () =>
+      headers
+        .filter((header) => !header.hideOnMobile)
+        .map((header, index) => ({ header, index }))
+        .sort(
+          (a, b) =>
+            (a.header.mobilePriority ?? Infinity) -
+              (b.header.mobilePriority ?? Infinity) || a.index - b.index,
+        )
+        .map(({ header }) => header),
+    [headers],
+  );
+
+  const sortOptions = headers
+    .filter((header) => header.isSortable)
+    .map((header) => ({ accessor: header.accessor, label: header.label }));
+  const showCardSort = isCardLayout && sortOptions.length > 0;
+
+  const handleCardSortChange = (
+    next: { key: string; direction: SortDirection } | null,
+  ) => {
+    setSort(next ? [next as SortConfig<TRow>] : []);
+    setCurrentPage(1);
+  };
+
+  const renderCard = (row: TableRow<TRow>) => {
+    if (isFullRow(row)) {
+      return (
+        <li key={row.id} className="apt-card apt-card-full">
+          {renderFullRow?.(row)}
+        </li>
+      );
+    }
+    const isExpandable = canExpandRow(row);
+    const isExpanded = isExpandable && expandedRowIds.has(row.id);
+    const isSelected = selectedRowIds.has(row.id);
+    const cells = new Map(
+      table.getCells(row).map((cell) => [cell.accessor, cell]),
+    );
+    const cardClasses = [
+      "apt-card",
+      isSelected ? "apt-card-selected" : "",
+      onRowClick ? "apt-card-clickable" : "",
+      rowClassName ? rowClassName(row) : "",
+    ]
+      .filter(Boolean)
+      .join(" ");
+
+    return (
+      <li
+        key={row.id}
+        className={cardClasses}
+        style={
+          isTree
+            ? ({ "--apt-tree-depth": row.depth ?? 0 } as CSSProperties)
+            : undefined
+        }
+        onClick={() => onRowClick && onRowClick(row)}
+      >
+        {(isSelectionEnabled || isTree || isExpandable) && (
+          <div className="apt-card-controls">
+            {isSelectionEnabled && (
+              <SelectionCheckbox
+                checked={isSelected}
+                disabled={!canSelectRow(row)}
+                label={t("selectRow")}
+                onToggle={(shiftKey) => toggleRowSelection(row, shiftKey)}
+              />
+            )}
+            {isTree && renderTreeToggle(row, true)}
+            {isExpandable && (
+              <button
+                type="button"
+                className="apt-card-expand"
+                aria-expanded={isExpanded}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  toggleRowExpanded(row);
+                }}
+              >
+                {t(isExpanded ? "hideDetails" : "showDetails")}
+              </button>
+            )}
+          </div>
+        )}
+        <dl className="apt-card-fields">
+          {cardHeaders.map((header) => {
+            const cell = cells.get(header.accessor);
+            if (!cell) return null;
+            return (
+              <div
+                key={header.accessor}
+                className="apt-card-field"
+                data-accessor={header.accessor}
+              >
+                <dt className="apt-card-label">{header.label}</dt>
+                <dd className="apt-card-value">
+                  {header.accessor === "actions" ? (
+                    <div onClick={(e) => e.stopPropagation()}>
+                      {cell.content}
+                    </div>
+                  ) : (
+                    cell.content
+                  )}
+                </dd>
+              </div>
+            );
+          })}
+        </dl>
+        {isExpanded && renderExpandedRow && (
+          <div className="apt-card-expanded">
+            <ExpandedRowContent row={row} render={renderExpandedRow} />
+          </div>
+        )}
+      </li>
+    );
+  };
+
+  const renderCardGroup = (
+    item: Extract<DisplayRow<TRow>, { type: "group" }>,
+  ) => {
+    const { group, continued } = item;
+    const isCollapsed = isGroupCollapsed(group.id);
+    return (
+      <li
+        key={`group-${group.id}${continued ? "-continued" : ""}`}
+        className="apt-card-group"
+        style={{ "--apt-group-depth": group.depth } as CSSProperties}
+      >
+        <button
+          type="button"
+          className="apt-card-group-toggle"
+          aria-expanded={!isCollapsed}
+          onClick={() => toggleGroups([group.id])}
+        >
+          <ChevronIcon
+            className={`apt-group-chevron${isCollapsed ? "" : " apt-group-chevron-open"}`}
+          />
+          {renderGroupSummary(item)}
+        </button>
+      </li>
+    );
+  };
+
   const containerStyle: CSSProperties = {
     height:
       sortedRows.length === 0
@@ -448,131 +2431,697 @@ const Table: React.FC<TableProps> = ({
     maxHeight: !effectiveShouldPaginate ? height : undefined,
   };
 
-  return (
-    <div className="apt-table-container" style={containerStyle}>
-      {sortedRows.length === 0 ? (
-        <div className="apt-empty-state">No rows to display.</div>
+  const tableContent = (
+    <div
+      ref={containerRef}
+      className={`apt-table-container${isRtl ? " apt-rtl" : ""}`}
+      style={containerStyle}
+      dir={localization.direction}
+      aria-busy={loading || undefined}
+    >
+      {(showGlobalSearch ||
+        showCardSort ||
+        showBulkActions ||
+        showExportMenu ||
+        enableViews ||
+        enableColumnVisibility) && (
+        <div className="apt-toolbar">
+          {showGlobalSearch && (
+            <input
+              type="search"
+              className="apt-global-search"
+              placeholder={globalSearchPlaceholder ?? t("searchPlaceholder")}
+              aria-label={t("searchLabel")}
+              value={filters.global}
+              onChange={(e) => handleGlobalFilterChange(e.target.value)}
+            />
+          )}
+          {showCardSort && (
+            <SortSelect
+              options={sortOptions}
+              value={sort[0]}
+              onChange={handleCardSortChange}
+            />
+          )}
+          {showBulkActions && (
+            <div className="apt-bulk-actions">
+              <span className="apt-bulk-count">
+                {t("selectedCount", { count: selectedRowIds.size })}
+              </span>
+              {renderBulkActions({
+                selectedRowIds,
+                selectedRows,
+                clearSelection,
+              })}
+            </div>
+          )}
+          {enableViews && (
+            <ViewsMenu
+              views={views}
+              activeViewId={activeViewId}
+              isModified={isViewModified}
+              onApply={applyView}
+              onSave={saveView}
+              onUpdate={updateView}
+              onRename={renameView}
+              onDelete={deleteView}
+              onReset={resetState}
+            />
+          )}
+          {enableColumnVisibility && (
+            <ColumnVisibilityToggle<TRow>
+              availableColumns={toggleColumns}
+              visibleColumns={sourceHeaders
+                .filter((h) => resolveColumnVisible(h, columnVisibility))
+                .map((h) => h.accessor)}
+              onColumnsChange={(keys) =>
+                setColumnVisibility(
+                  Object.fromEntries(
+                    sourceHeaders.map((h) => [
+                      h.accessor,
+                      keys.includes(h.accessor),
+                    ]),
+                  ),
+                )
+              }
+              defaultVisibleColumns={sourceHeaders
+                .filter((h) =>
+                  resolveColumnVisible(h, defaultColumnVisibility ?? {}),
+                )
+                .map((h) => h.accessor)}
+              minVisibleColumns={minVisibleColumns}
+              columnOrder={columnOrder as HeaderAccessor<TRow>[]}
+              onColumnOrderChange={
+                enableColumnReorder ? setColumnOrder : undefined
+              }
+            />
+          )}
+          {showExportMenu && (
+            <ExportMenu
+              formats={exportFormats}
+              allowPage={effectiveShouldPaginate && !manual}
+              allowSelected={isSelectionEnabled}
+              selectedCount={selectedRowIds.size}
+              onExport={(format, scope) => exportData({ format, scope })}
+            />
+          )}
+        </div>
+      )}
+      {showEmptyState ? (
+        <div className="apt-empty-state">{t("noRows")}</div>
       ) : (
         <>
-          <div className="apt-scroll-area">
-            <table className="apt-table" ref={tableRef}>
-              <colgroup>
-                {headers.map((header) => (
-                  <col
-                    key={`col-${header.accessor}`}
-                    style={{
-                      width: columnWidths[header.accessor],
-                      minWidth: `${parseWidthValue(
-                        header.minWidth,
-                        minColWidth,
-                      )}px`,
-                    }}
-                  />
-                ))}
-              </colgroup>
-              <thead className="apt-thead">
-                <tr>
-                  {headers.map((header, idx) => {
-                    const isHeaderClickable =
-                      (mobileAutoSizeOnHeaderClick && isMobile) ||
-                      header.isSortable;
-                    return (
+          {isCardLayout ? (
+            <div
+              className="apt-scroll-area apt-cards-scroll"
+              ref={scrollAreaRef}
+            >
+              {showSkeletonRows ? (
+                <ul className="apt-cards" aria-hidden="true">
+                  {Array.from({ length: skeletonRowCount }, (_, idx) => (
+                    <li key={`skeleton-${idx}`} className="apt-card">
+                      <span className="apt-skeleton" />
+                      <span className="apt-skeleton" />
+                    </li>
+                  ))}
+                </ul>
+              ) : sortedRows.length === 0 ? (
+                <div className="apt-empty-row">
+                  {t(isFiltered ? "noMatchingRows" : "noRows")}
+                </div>
+              ) : (
+                <ul className="apt-cards">
+                  {pageItems.map((item) =>
+                    item.type === "group"
+                      ? renderCardGroup(item)
+                      : renderCard(item.row),
+                  )}
+                </ul>
+              )}
+              <div
+                className="apt-sr-only"
+                aria-live="polite"
+                aria-atomic="true"
+              >
+                {announcement}
+              </div>
+              {loading && !showSkeletonRows && (
+                <div className="apt-loading-overlay" role="status">
+                  <span className="apt-spinner" />
+                  <span className="apt-sr-only">{t("loading")}</span>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div
+              className={`apt-scroll-area${
+                scrollShadows.left ? " apt-scroll-shadow-left" : ""
+              }${scrollShadows.right ? " apt-scroll-shadow-right" : ""}`}
+              ref={scrollAreaRef}
+              onScroll={hasPinnedColumns ? updateScrollShadows : undefined}
+            >
+              <table
+                className={`apt-table${
+                  columnSizing === "fitContent" ? " apt-table-fit-content" : ""
+                }`}
+                ref={tableRef}
+                role={isTree ? "treegrid" : "grid"}
+                aria-rowcount={
+                  totalCount + headerRowCount + (isFooterVisible ? 1 : 0)
+                }
+                aria-colcount={totalColumnCount}
+                aria-multiselectable={
+                  selectionMode === "multi" ? true : undefined
+                }
+                onKeyDown={handleTableKeyDown}
+                onFocus={grid.handleFocus}
+                onCopy={handleCopy}
+                onPaste={handlePaste}
+              >
+                <colgroup>
+                  {isSelectionEnabled && <col className="apt-select-col" />}
+                  {isExpanderColumnVisible && (
+                    <col className="apt-expander-col" />
+                  )}
+                  {table.headers.map((header) => (
+                    <col
+                      key={`col-${header.accessor}`}
+                      style={table.getColumnStyle(header)}
+                    />
+                  ))}
+                </colgroup>
+                <thead className="apt-thead">
+                  <tr aria-rowindex={1}>
+                    {isSelectionEnabled && (
                       <th
-                        key={header.accessor}
-                        onClick={() => handleHeaderClick(header, idx)}
-                        className={`apt-th ${
-                          isHeaderClickable ? "apt-th-sortable" : ""
-                        }`}
+                        className={getPinClassName("apt-th apt-select-cell", 0)}
+                        style={getPinStyle(0)}
+                        data-apt-row={-1}
+                        data-apt-col={0}
+                        tabIndex={grid.getTabIndex(-1, 0)}
+                        aria-colindex={1}
                       >
-                        <div className="apt-th-content">
-                          {header.label}
-                          {header.isSortable &&
-                            !(mobileAutoSizeOnHeaderClick && isMobile) &&
-                            getSortIcon(header.accessor)}
-                        </div>
-                        <div
-                          className="apt-resizer"
-                          onMouseDown={(e) => {
-                            e.stopPropagation();
-                            handleMouseDown(e, header.accessor);
-                          }}
-                          onClick={(e) => e.stopPropagation()}
-                        />
+                        {selectionMode === "multi" && (
+                          <SelectionCheckbox
+                            checked={isAllSelected}
+                            indeterminate={
+                              selectedInScopeCount > 0 && !isAllSelected
+                            }
+                            disabled={selectAllRows.length === 0}
+                            label={t(
+                              selectAllScope === "all"
+                                ? "selectAllRows"
+                                : "selectPageRows",
+                            )}
+                            onToggle={toggleAllRowsSelection}
+                          />
+                        )}
                       </th>
-                    );
-                  })}
-                </tr>
-              </thead>
-              <tbody className="apt-tbody">
-                {paginatedRows.map((row) => {
-                  const isExpanded = expandedRowId === row.id;
-                  const isFullRow =
-                    typeof renderFullRow === "function" && row?._meta?.fullRow;
-                  return (
-                    <Fragment key={row.id}>
-                      {isFullRow ? (
-                        <tr
-                          className={`apt-row ${rowClassName ? rowClassName(row) : ""}`}
-                          onClick={() => onRowClick && onRowClick(row)}
+                    )}
+                    {isExpanderColumnVisible && (
+                      <th
+                        className={getPinClassName(
+                          "apt-th apt-expander-cell",
+                          expanderColIndex,
+                        )}
+                        style={getPinStyle(expanderColIndex)}
+                        data-apt-row={-1}
+                        data-apt-col={expanderColIndex}
+                        tabIndex={grid.getTabIndex(-1, expanderColIndex)}
+                        aria-colindex={expanderColIndex + 1}
+                      >
+                        <button
+                          type="button"
+                          className="apt-expander-toggle"
+                          tabIndex={-1}
+                          disabled={expandableRowIdsOnPage.length === 0}
+                          aria-label={t(
+                            isPageExpanded
+                              ? "collapsePageDetails"
+                              : "expandPageDetails",
+                          )}
+                          aria-expanded={isPageExpanded}
+                          onClick={togglePageExpanded}
+                        >
+                          <ChevronIcon
+                            className={`apt-tree-chevron${
+                              isPageExpanded ? " apt-tree-chevron-open" : ""
+                            }`}
+                          />
+                        </button>
+                      </th>
+                    )}
+                    {headers.map((header, idx) => {
+                      const headerModel = table.headers[idx];
+                      const headerProps = table.getHeaderProps(headerModel);
+                      return (
+                        <th
+                          key={header.accessor}
+                          {...headerProps}
+                          onClick={(e) => {
+                            // Ignore the click that ends a column drag.
+                            if (suppressHeaderClickRef.current) {
+                              suppressHeaderClickRef.current = false;
+                              return;
+                            }
+                            headerProps.onClick(e);
+                          }}
+                          data-apt-row={-1}
+                          data-apt-col={idx + leadingColumnCount}
+                          tabIndex={grid.getTabIndex(
+                            -1,
+                            idx + leadingColumnCount,
+                          )}
+                          aria-colindex={idx + leadingColumnCount + 1}
+                          className={getPinClassName(
+                            [
+                              "apt-th",
+                              headerModel.isClickable ? "apt-th-sortable" : "",
+                              columnDrag?.accessor === header.accessor
+                                ? "apt-th-dragging"
+                                : "",
+                              columnDrag?.target === header.accessor
+                                ? `apt-th-drop-${columnDrag.placement}`
+                                : "",
+                            ]
+                              .filter(Boolean)
+                              .join(" "),
+                            idx + leadingColumnCount,
+                          )}
+                          style={getPinStyle(idx + leadingColumnCount)}
                         >
+                          <div className="apt-th-content">
+                            {canReorderColumn(header) && (
+                              <span
+                                className="apt-column-drag-handle"
+                                aria-hidden="true"
+                                onPointerDown={(e) =>
+                                  handleColumnDragStart(e, header.accessor)
+                                }
+                              >
+                                <GripIcon />
+                              </span>
+                            )}
+                            {isTree && header.accessor === treeAccessor && (
+                              <button
+                                type="button"
+                                className="apt-tree-toggle"
+                                aria-label={t(
+                                  expandedIds.size > 0
+                                    ? "collapseAllRows"
+                                    : "expandAllRows",
+                                )}
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  if (expandedIds.size > 0) collapseAll();
+                                  else expandAll();
+                                }}
+                              >
+                                <ChevronIcon
+                                  className={`apt-tree-chevron${
+                                    expandedIds.size > 0
+                                      ? " apt-tree-chevron-open"
+                                      : ""
+                                  }`}
+                                />
+                              </button>
+                            )}
+                            {header.label}
+                            {header.isSortable &&
+                              !(mobileAutoSizeOnHeaderClick && isMobile) &&
+                              getSortIcon(header.accessor)}
+                            {enableColumnPinning &&
+                              header.pinnable !== false && (
+                                <ColumnMenu
+                                  label={header.label}
+                                  pinned={resolveColumnPin(
+                                    header,
+                                    columnPinning,
+                                  )}
+                                  onPinChange={(pin) =>
+                                    pinColumn(header.accessor, pin)
+                                  }
+                                />
+                              )}
+                          </div>
+                          <div
+                            className="apt-resizer"
+                            {...table.getResizerProps(headerModel)}
+                          />
+                        </th>
+                      );
+                    })}
+                  </tr>
+                  {isFilterRowVisible && (
+                    <tr className="apt-filter-row" aria-rowindex={2}>
+                      {isSelectionEnabled && (
+                        <th
+                          className={getPinClassName("apt-filter-cell", 0)}
+                          style={getPinStyle(0)}
+                        />
+                      )}
+                      {isExpanderColumnVisible && (
+                        <th
+                          className={getPinClassName(
+                            "apt-filter-cell",
+                            expanderColIndex,
+                          )}
+                          style={getPinStyle(expanderColIndex)}
+                        />
+                      )}
+                      {headers.map((header, idx) => {
+                        const config = filterConfigs[idx];
+                        return (
+                          <th
+                            key={`filter-${header.accessor}`}
+                            className={getPinClassName(
+                              "apt-filter-cell",
+                              idx + leadingColumnCount,
+                            )}
+                            style={getPinStyle(idx + leadingColumnCount)}
+                          >
+                            {config && (
+                              <ColumnFilter
+                                config={config}
+                                filter={filters.columns[header.accessor]}
+                                onChange={(filter) =>
+                                  handleColumnFilterChange(
+                                    header.accessor,
+                                    filter,
+                                  )
+                                }
+                                label={header.label}
+                                options={enumOptions[header.accessor]}
+                              />
+                            )}
+                          </th>
+                        );
+                      })}
+                    </tr>
+                  )}
+                </thead>
+                <tbody className="apt-tbody" ref={tbodyRef}>
+                  {showSkeletonRows &&
+                    Array.from({ length: skeletonRowCount }, (_, rowIdx) => (
+                      <tr
+                        key={`skeleton-${rowIdx}`}
+                        className="apt-row apt-skeleton-row"
+                        style={{ height: `${rowHeight}px` }}
+                        aria-hidden="true"
+                      >
+                        {Array.from(
+                          { length: leadingColumnCount },
+                          (_, col) => (
+                            <td
+                              key={`skeleton-${rowIdx}-leading-${col}`}
+                              className={getPinClassName("apt-td", col)}
+                              style={getPinStyle(col)}
+                            />
+                          ),
+                        )}
+                        {headers.map((header, idx) => (
                           <td
-                            colSpan={headers.length}
-                            className="apt-td"
-                            style={{ padding: 0 }}
+                            key={`skeleton-${rowIdx}-${header.accessor}`}
+                            className={getPinClassName(
+                              "apt-td",
+                              idx + leadingColumnCount,
+                            )}
+                            style={getPinStyle(idx + leadingColumnCount)}
                           >
-                            {renderFullRow(row)}
+                            <span className="apt-skeleton" />
                           </td>
-                        </tr>
-                      ) : (
-                        <tr
-                          className={`apt-row ${rowClassName ? rowClassName(row) : ""}`}
-                          onClick={() => onRowClick && onRowClick(row)}
-                          style={{ height: `${rowHeight}px` }}
-                        >
-                          {headers.map((header) => {
-                            const value = row[header.accessor];
-                            const cellContent = header.cellRenderer
-                              ? header.cellRenderer({ row, value })
-                              : value;
-                            return (
+                        ))}
+                      </tr>
+                    ))}
+                  {sortedRows.length === 0 && !showSkeletonRows && (
+                    <tr>
+                      <td colSpan={totalColumnCount} className="apt-empty-row">
+                        {t(isFiltered ? "noMatchingRows" : "noRows")}
+                      </td>
+                    </tr>
+                  )}
+                  {virtual.paddingTop > 0 && (
+                    <tr
+                      className="apt-virtual-spacer"
+                      style={{ height: `${virtual.paddingTop}px` }}
+                      aria-hidden="true"
+                    >
+                      <td colSpan={totalColumnCount} />
+                    </tr>
+                  )}
+                  {visibleItems.map((item, visibleIdx) => {
+                    const rowIndex = visibleStartIndex + visibleIdx;
+                    if (item.type === "group") {
+                      return renderGroupRow(item, rowIndex);
+                    }
+                    const row = item.row;
+                    const isExpanded =
+                      canExpandRow(row) && expandedRowIds.has(row.id);
+                    const isSelected = selectedRowIds.has(row.id);
+                    const rowProps = table.getRowProps(row);
+                    const rowClasses = [
+                      "apt-row",
+                      isSelected ? "apt-row-selected" : "",
+                      rowClassName ? rowClassName(row) : "",
+                    ]
+                      .filter(Boolean)
+                      .join(" ");
+                    return (
+                      <Fragment key={row.id}>
+                        {isFullRow(row) ? (
+                          <tr
+                            className={rowClasses}
+                            onClick={() => onRowClick && onRowClick(row)}
+                            data-apt-index={rowIndex}
+                            aria-rowindex={ariaRowIndexBase + item.displayIndex}
+                          >
+                            <td
+                              colSpan={totalColumnCount}
+                              className="apt-td"
+                              style={{ padding: 0 }}
+                              data-apt-row={rowIndex}
+                              data-apt-col={0}
+                              tabIndex={grid.getTabIndex(rowIndex, 0)}
+                            >
+                              {renderFullRow?.(row)}
+                            </td>
+                          </tr>
+                        ) : (
+                          <tr
+                            className={rowClasses}
+                            onClick={() => onRowClick && onRowClick(row)}
+                            style={{ height: `${rowHeight}px` }}
+                            data-apt-index={rowIndex}
+                            aria-rowindex={ariaRowIndexBase + item.displayIndex}
+                            aria-selected={
+                              isSelectionEnabled ? isSelected : undefined
+                            }
+                            {...rowProps}
+                            aria-expanded={
+                              isTree
+                                ? rowProps["aria-expanded"]
+                                : canExpandRow(row) && !isExpanderColumnVisible
+                                  ? isExpanded
+                                  : undefined
+                            }
+                          >
+                            {isSelectionEnabled && (
                               <td
-                                key={`${row.id}-${header.accessor}`}
-                                className={
-                                  header.accessor === "actions"
-                                    ? "apt-td-actions"
-                                    : "apt-td"
-                                }
-                              >
-                                {header.accessor === "actions" ? (
-                                  <div onClick={(e) => e.stopPropagation()}>
-                                    {cellContent}
-                                  </div>
-                                ) : (
-                                  cellContent
+                                className={getPinClassName(
+                                  "apt-td apt-select-cell",
+                                  0,
                                 )}
+                                style={getPinStyle(0)}
+                                onClick={(e) => e.stopPropagation()}
+                                data-apt-row={rowIndex}
+                                data-apt-col={0}
+                                tabIndex={grid.getTabIndex(rowIndex, 0)}
+                              >
+                                <SelectionCheckbox
+                                  checked={isSelected}
+                                  disabled={!canSelectRow(row)}
+                                  label={t("selectRow")}
+                                  onToggle={(shiftKey) =>
+                                    toggleRowSelection(row, shiftKey)
+                                  }
+                                />
                               </td>
-                            );
-                          })}
-                        </tr>
-                      )}
-                      {isExpanded &&
-                        typeof renderExpandedRow === "function" && (
-                          <tr className="apt-row-expanded">
+                            )}
+                            {isExpanderColumnVisible &&
+                              renderExpanderCell(row, rowIndex)}
+                            {table.getCells(row).map((cell, headerIdx) => {
+                              const header = cell.column;
+                              const colIndex = headerIdx + leadingColumnCount;
+                              const cellContent = cell.content;
+                              const isEditableCell = isCellEditable(
+                                row,
+                                header,
+                              );
+                              const isEditing =
+                                editing?.rowId === row.id &&
+                                editing.accessor === header.accessor;
+                              const isInRange =
+                                hasMultiCellRange &&
+                                rowIndex >= rangeBounds.top &&
+                                rowIndex <= rangeBounds.bottom &&
+                                headerIdx >= rangeBounds.left &&
+                                headerIdx <= rangeBounds.right;
+                              const cellClasses = getPinClassName(
+                                [
+                                  header.accessor === "actions"
+                                    ? "apt-td-actions"
+                                    : "apt-td",
+                                  isEditableCell ? "apt-td-editable" : "",
+                                  isEditing ? "apt-td-editing" : "",
+                                  isInRange ? "apt-td-in-range" : "",
+                                ]
+                                  .filter(Boolean)
+                                  .join(" "),
+                                colIndex,
+                              );
+                              return (
+                                <td
+                                  key={`${row.id}-${header.accessor}`}
+                                  className={cellClasses}
+                                  style={getPinStyle(colIndex)}
+                                  {...table.getCellProps(row, cell)}
+                                  data-apt-row={rowIndex}
+                                  data-apt-col={colIndex}
+                                  tabIndex={grid.getTabIndex(
+                                    rowIndex,
+                                    colIndex,
+                                  )}
+                                  onMouseDown={(e) =>
+                                    handleCellMouseDown(e, rowIndex, colIndex)
+                                  }
+                                  onMouseEnter={() =>
+                                    handleCellMouseEnter(rowIndex, colIndex)
+                                  }
+                                  onDoubleClick={
+                                    isEditableCell
+                                      ? () => startEdit(row, header)
+                                      : undefined
+                                  }
+                                  onClick={
+                                    isEditing
+                                      ? (e) => e.stopPropagation()
+                                      : undefined
+                                  }
+                                >
+                                  {isEditing ? (
+                                    renderEditor(row, header)
+                                  ) : header.accessor === "actions" ? (
+                                    <div onClick={(e) => e.stopPropagation()}>
+                                      {cellContent}
+                                    </div>
+                                  ) : isTree &&
+                                    header.accessor === treeAccessor ? (
+                                    <span
+                                      className="apt-tree-cell"
+                                      style={
+                                        {
+                                          "--apt-tree-depth": row.depth ?? 0,
+                                        } as CSSProperties
+                                      }
+                                    >
+                                      {renderTreeToggle(row)}
+                                      <span className="apt-tree-content">
+                                        {cellContent}
+                                      </span>
+                                    </span>
+                                  ) : (
+                                    cellContent
+                                  )}
+                                </td>
+                              );
+                            })}
+                          </tr>
+                        )}
+                        {isExpanded && renderExpandedRow && (
+                          <tr
+                            className="apt-row-expanded"
+                            data-apt-index={rowIndex}
+                          >
                             <td
-                              colSpan={headers.length}
+                              colSpan={totalColumnCount}
                               className="apt-td"
                               style={{ padding: 0 }}
                             >
-                              {renderExpandedRow(row)}
+                              <ExpandedRowContent
+                                row={row}
+                                render={renderExpandedRow}
+                              />
                             </td>
                           </tr>
                         )}
-                    </Fragment>
-                  );
-                })}
-              </tbody>
-            </table>
-          </div>
+                      </Fragment>
+                    );
+                  })}
+                  {virtual.paddingBottom > 0 && (
+                    <tr
+                      className="apt-virtual-spacer"
+                      style={{ height: `${virtual.paddingBottom}px` }}
+                      aria-hidden="true"
+                    >
+                      <td colSpan={totalColumnCount} />
+                    </tr>
+                  )}
+                </tbody>
+                {isFooterVisible && (
+                  <tfoot className="apt-tfoot">
+                    <tr
+                      className="apt-summary-row"
+                      aria-rowindex={totalCount + headerRowCount + 1}
+                    >
+                      {isSelectionEnabled && (
+                        <td
+                          className={getPinClassName(
+                            "apt-td apt-select-cell",
+                            0,
+                          )}
+                          style={getPinStyle(0)}
+                        />
+                      )}
+                      {isExpanderColumnVisible && (
+                        <td
+                          className={getPinClassName(
+                            "apt-td apt-expander-cell",
+                            expanderColIndex,
+                          )}
+                          style={getPinStyle(expanderColIndex)}
+                        />
+                      )}
+                      {headers.map((header, idx) => (
+                        <td
+                          key={`footer-${header.accessor}`}
+                          className={getPinClassName(
+                            "apt-td apt-summary-cell",
+                            idx + leadingColumnCount,
+                          )}
+                          style={getPinStyle(idx + leadingColumnCount)}
+                        >
+                          {renderFooterCell(header, idx)}
+                        </td>
+                      ))}
+                    </tr>
+                  </tfoot>
+                )}
+              </table>
+              <div
+                className="apt-sr-only"
+                aria-live="polite"
+                aria-atomic="true"
+              >
+                {announcement}
+              </div>
+              {loading && !showSkeletonRows && (
+                <div className="apt-loading-overlay" role="status">
+                  <span className="apt-spinner" />
+                  <span className="apt-sr-only">{t("loading")}</span>
+                </div>
+              )}
+            </div>
+          )}
           {(shouldPaginate && totalPages > 1) ||
           (Array.isArray(rowsPerPageOptions) &&
             rowsPerPageOptions.length > 0 &&
@@ -583,12 +3132,12 @@ const Table: React.FC<TableProps> = ({
                   rowsPerPageOptions.length > 0 &&
                   onRowsPerPageChange && (
                     <>
-                      <label className="apt-rows-label">Rows</label>
+                      <label className="apt-rows-label">
+                        {t("rowsPerPage")}
+                      </label>
                       <select
                         value={rowsPerPage}
-                        onChange={(e) =>
-                          onRowsPerPageChange(Number(e.target.value))
-                        }
+                        onChange={(e) => setRowsPerPage(Number(e.target.value))}
                         className="apt-rows-select"
                       >
                         {rowsPerPageOptions.map((opt) => (
@@ -601,28 +3150,31 @@ const Table: React.FC<TableProps> = ({
                   )}
               </div>
               <div className="apt-footer-center">
-                {totalPages > 1 ? `Page ${safePage} of ${totalPages}` : ""}
+                {totalCount > 0
+                  ? t("rangeSummary", {
+                      start: visibleRange.start,
+                      end: visibleRange.end,
+                      total: totalCount,
+                    })
+                  : ""}
               </div>
               <div className="apt-footer-right">
-                {totalPages > 1 ? (
-                  <>
-                    <button
-                      onClick={() => setCurrentPage((p) => Math.max(1, p - 1))}
-                      disabled={safePage === 1}
-                      className="apt-btn"
-                    >
-                      Previous
-                    </button>
-                    <button
-                      onClick={() =>
-                        setCurrentPage((p) => Math.min(totalPages, p + 1))
-                      }
-                      disabled={safePage === totalPages}
-                      className="apt-btn"
-                    >
-                      Next
-                    </button>
-                  </>
+                {effectiveShouldPaginate ? (
+                  <Pagination
+                    page={safePage}
+                    pageCount={totalPages}
+                    onPageChange={setCurrentPage}
+                    showPageJump={showPageJump}
+                  />
+                ) : paginationMode === "loadMore" && hasMore ? (
+                  <button
+                    type="button"
+                    onClick={loadMore}
+                    disabled={loading}
+                    className="apt-btn apt-load-more"
+                  >
+                    {t("loadMore")}
+                  </button>
                 ) : null}
               </div>
             </div>
@@ -631,6 +3183,18 @@ const Table: React.FC<TableProps> = ({
       )}
     </div>
   );
+
+  // Menus, filters and editors inside read the merged locale.
+  return (
+    <TableLocaleContext.Provider value={localization}>
+      {tableContent}
+    </TableLocaleContext.Provider>
+  );
 };
 
+// forwardRef erases generics; restore them for consumers.
+const Table = forwardRef(TableInner) as <TRow extends RowData = RowData>(
+  props: TableProps<TRow> & { ref?: Ref<TableHandle> },
+) => ReturnType<typeof TableInner>;
+
 export default Table;
@@ -0,0 +1,187 @@
+import { useEffect, useRef, useState } from "react";
+import type { SavedTableView } from "./tableState";
+import { useTableLocale } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+export interface ViewsMenuProps {
+  views: SavedTableView[];
+  activeViewId: string | null;
+  /** The table no longer matches the active view. */
+  isModified: boolean;
+  onApply: (id: string) => void;
+  onSave: (name: string) => void;
+  onUpdate: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onReset: () => void;
+}
+
+// ============= Main Component =============
+
+const ViewsMenu: React.FC<ViewsMenuProps> = ({
+  views,
+  activeViewId,
+  isModified,
+  onApply,
+  onSave,
+  onUpdate,
+  onRename,
+  onDelete,
+  onReset,
+}) => {
+  const { t } = useTableLocale();
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [renaming, setRenaming] = useState<{ id: string; name: string }>();
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+        setRenaming(undefined);
+      }
+    };
+
+    if (isOpen) {
+      document.addEventListener("mousedown", handleClickOutside);
+    }
+
+    return () => {
+      document.removeEventListener("mousedown", handleClickOutside);
+    };
+  }, [isOpen]);
+
+  const activeView = views.find((view) => view.id === activeViewId);
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) {
+      onRename(renaming.id, renaming.name.trim());
+    }
+    setRenaming(undefined);
+  };
+
+  const commitSave = () => {
+    if (!newName.trim()) return;
+    onSave(newName.trim());
+    setNewName("");
+  };
+
+  return (
+    <div className="apt-views" ref={menuRef}>
+      <button
+        type="button"
+        className="apt-views-btn"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-haspopup="true"
+        aria-expanded={isOpen}
+      >
+        {activeView ? t("activeView", { name: activeView.name }) : t("views")}
+        {isModified && activeView ? " *" : ""}
+      </button>
+      {isOpen && (
+        <div className="apt-views-menu">
+          {views.length > 0 && (
+            <ul className="apt-views-list">
+              {views.map((view) => (
+                <li key={view.id} className="apt-views-item">
+                  {renaming?.id === view.id ? (
+                    <input
+                      className="apt-views-input"
+                      aria-label={t("viewName")}
+                      value={renaming.name}
+                      autoFocus
+                      onChange={(e) =>
+                        setRenaming({ id: view.id, name: e.target.value })
+                      }
+                      onBlur={commitRename}
+                      onKeyDown={(e) => {
+                        if (e.key === "Enter") commitRename();
+                        if (e.key === "Escape") setRenaming(undefined);
+                      }}
+                    />
+                  ) : (
+                    <button
+                      type="button"
+                      className={`apt-views-apply${
+                        view.id === activeViewId ? " apt-views-active" : ""
+                      }`}
+                      aria-pressed={view.id === activeViewId}
+                      onClick={() => {
+                        onApply(view.id);
+                        setIsOpen(false);
+                      }}
+                    >
+                      {view.name}
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="apt-views-action"
+                    aria-label={t("renameView", { name: view.name })}
+                    onClick={() =>
+                      setRenaming({ id: view.id, name: view.name })
+                    }
+                  >
+                    {t("rename")}
+                  </button>
+                  <button
+                    type="button"
+                    className="apt-views-action"
+                    aria-label={t("deleteView", { name: view.name })}
+                    onClick={() => onDelete(view.id)}
+                  >
+                    {t("delete")}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          {activeView && isModified && (
+            <button
+              type="button"
+              className="apt-views-command"
+              onClick={() => onUpdate(activeView.id)}
+            >
+              {t("saveViewChanges", { name: activeView.name })}
+            </button>
+          )}
+          <div className="apt-views-new">
+            <input
+              className="apt-views-input"
+              placeholder={t("newViewName")}
+              aria-label={t("newViewName")}
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") commitSave();
+              }}
+            />
+            <button
+              type="button"
+              className="apt-views-action"
+              disabled={!newName.trim()}
+              onClick={commitSave}
+            >
+              {t("save")}
+            </button>
+          </div>
+          <button
+            type="button"
+            className="apt-views-command"
+            onClick={() => {
+              onReset();
+              setIsOpen(false);
+            }}
+          >
+            {t("resetView")}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ViewsMenu;
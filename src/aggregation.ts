@@ -0,0 +1,88 @@
+import { isValidElement } from "react";
+import type { AggregateType, RowData, TableRow } from "./types";
+import { getAccessorValue } from "./utils";
+import { getNumberFormat } from "./localization";
+
+// Non-distributed form of `TableHeader.aggregate`.
+export type Aggregate<TRow extends RowData> =
+  | AggregateType
+  | ((values: any[], rows: TableRow<TRow>[]) => unknown);
+
+// ============= Aggregation =============
+
+const toComparable = (value: unknown): number | null => {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? null : value.getTime();
+  }
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const isEmpty = (value: unknown) =>
+  value === null ||
+  value === undefined ||
+  (typeof value === "string" && value.trim() === "");
+
+/**
+ * Computes an aggregate over a column. Built-ins ignore empty and
+ * non-numeric values; `min`/`max` also accept dates (and return a Date).
+ */
+export function computeAggregate<TRow extends RowData>(
+  aggregate: Aggregate<TRow>,
+  rows: TableRow<TRow>[],
+  accessor: string,
+): unknown {
+  const values = rows.map((row) => getAccessorValue(row, accessor));
+  if (typeof aggregate === "function") return aggregate(values, rows);
+
+  if (aggregate === "count") return values.filter((v) => !isEmpty(v)).length;
+
+  const numbers = values
+    .map(toComparable)
+    .filter((n): n is number => n !== null);
+  if (numbers.length === 0) return null;
+
+  switch (aggregate) {
+    case "sum":
+      return numbers.reduce((sum, n) => sum + n, 0);
+    case "avg":
+      return numbers.reduce((sum, n) => sum + n, 0) / numbers.length;
+    case "min":
+    case "max": {
+      const result =
+        aggregate === "min" ? Math.min(...numbers) : Math.max(...numbers);
+      return values.some((v) => v instanceof Date) ? new Date(result) : result;
+    }
+    default:
+      return null;
+  }
+}
+
+// ============= Formatting =============
+
+const DEFAULT_NUMBER_FORMAT: Intl.NumberFormatOptions = {
+  maximumFractionDigits: 2,
+};
+
+/**
+ * Renders an aggregate result: numbers go through `Intl.NumberFormat`,
+ * dates are formatted for `locale` and React elements pass through
+ * untouched.
+ */
+export function formatAggregate(
+  value: unknown,
+  numberFormat: Intl.NumberFormatOptions = DEFAULT_NUMBER_FORMAT,
+  locale?: string,
+): React.ReactNode {
+  if (value === null || value === undefined) return null;
+  if (isValidElement(value)) return value;
+  if (typeof value === "number") {
+    return getNumberFormat(locale, numberFormat).format(value);
+  }
+  if (value instanceof Date) return value.toLocaleDateString(locale);
+  return String(value);
+}
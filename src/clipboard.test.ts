@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { parseTSV, toClipboardTSV } from "./clipboard";
+
+describe("parseTSV", () => {
+  it("splits tabs and line breaks and ignores one trailing line break", () => {
+    expect(parseTSV("a\tb\r\nc\td\r\n")).toEqual([
+      ["a", "b"],
+      ["c", "d"],
+    ]);
+  });
+
+  it("reads quoted cells with tabs, newlines and doubled quotes", () => {
+    expect(parseTSV('"x\ty"\t"line 1\nline 2"\t"say ""hi"""')).toEqual([
+      ["x\ty", "line 1\nline 2", 'say "hi"'],
+    ]);
+  });
+
+  it("keeps quotes inside an unquoted cell", () => {
+    expect(parseTSV('5" screen\tok')).toEqual([['5" screen', "ok"]]);
+  });
+
+  it("keeps empty cells", () => {
+    expect(parseTSV("\t\na\t")).toEqual([
+      ["", ""],
+      ["a", ""],
+    ]);
+  });
+});
+
+describe("toClipboardTSV", () => {
+  it("round-trips through parseTSV", () => {
+    const cells = [
+      ["Name", "Note", "Quote"],
+      ["Ann", "tab\there", 'a "quoted" word'],
+      ["  padded  ", "multi\nline", ""],
+    ];
+    expect(parseTSV(toClipboardTSV(cells))).toEqual(cells);
+  });
+});
@@ -0,0 +1,95 @@
+import type { RowData, TableHeader, TableRow } from "./types";
+import { formatText, getExportValue, quoteDelimited } from "./export";
+
+// ============= TypeScript Interfaces =============
+
+/** Inclusive cell range in page-row / header-column indices. */
+export interface CellRangeBounds {
+  top: number;
+  bottom: number;
+  left: number;
+  right: number;
+}
+
+// ============= Copy =============
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Reads the plain-text values of the given cells, using each header's
+ * `exportValue` so rendered JSX never ends up on the clipboard.
+ */
+export function getRangeText<TRow extends RowData>(
+  rows: TableRow<TRow>[],
+  headers: TableHeader<TRow>[],
+): string[][] {
+  return rows.map((row) =>
+    headers.map((header) => formatText(getExportValue(row, header))),
+  );
+}
+
+export function toClipboardTSV(cells: string[][]): string {
+  return cells
+    .map((line) => line.map((cell) => quoteDelimited(cell, "\t")).join("\t"))
+    .join("\r\n");
+}
+
+export function toClipboardHTML(cells: string[][]): string {
+  const body = cells
+    .map(
+      (line) =>
+        `<tr>${line.map((cell) => `<td>${escapeHtml(cell)}</td>`).join("")}</tr>`,
+    )
+    .join("");
+  return `<table><tbody>${body}</tbody></table>`;
+}
+
+// ============= Paste =============
+
+/**
+ * Parses tab-separated clipboard text (as produced by Excel and Google
+ * Sheets) into rows of cells. Quoted cells may contain tabs, newlines and
+ * doubled quotes; a single trailing line break is ignored.
+ */
+export function parseTSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+  let i = 0;
+
+  const input = text.replace(/\r\n?/g, "\n").replace(/\n$/, "");
+  while (i < input.length) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i += 2;
+        continue;
+      }
+      if (char === '"') inQuotes = false;
+      else cell += char;
+    } else if (char === '"' && cell === "") {
+      inQuotes = true;
+    } else if (char === "\t") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n") {
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+    i++;
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows;
+}
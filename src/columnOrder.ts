@@ -0,0 +1,41 @@
+// ============= TypeScript Interfaces =============
+
+export type DropPlacement = "before" | "after";
+
+// ============= Column Order Utilities =============
+
+/**
+ * Sorts items by a saved list of keys. Keys missing from `order` (e.g.
+ * columns added after the order was saved) keep their relative position at
+ * the end; unknown keys in `order` are ignored.
+ */
+export function applyColumnOrder<T>(
+  items: T[],
+  order: string[] | undefined,
+  getKey: (item: T) => string,
+): T[] {
+  if (!order || order.length === 0) return items;
+  const rank = new Map(order.map((key, index) => [key, index]));
+  const ranked = items.filter((item) => rank.has(getKey(item)));
+  ranked.sort((a, b) => rank.get(getKey(a))! - rank.get(getKey(b))!);
+  return [...ranked, ...items.filter((item) => !rank.has(getKey(item)))];
+}
+
+/**
+ * Moves `key` next to `target`. Returns `order` unchanged when either key is
+ * missing or the move is a no-op.
+ */
+export function moveColumn(
+  order: string[],
+  key: string,
+  target: string,
+  placement: DropPlacement,
+): string[] {
+  if (key === target || !order.includes(key) || !order.includes(target)) {
+    return order;
+  }
+  const next = order.filter((k) => k !== key);
+  const targetIndex = next.indexOf(target);
+  next.splice(placement === "before" ? targetIndex : targetIndex + 1, 0, key);
+  return next.every((k, index) => k === order[index]) ? order : next;
+}
@@ -0,0 +1,55 @@
+// ============= TypeScript Interfaces =============
+
+export interface FlexColumn {
+  accessor: string;
+  /** Share of the free space; see `TableHeader.flex`. */
+  weight: number;
+  minWidth: number;
+  maxWidth: number;
+}
+
+// ============= Column Sizing Utilities =============
+
+export const clampWidth = (width: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, width));
+
+/**
+ * Splits `available` pixels between columns by weight. A column whose share
+ * falls outside its bounds is frozen at the bound and the rest is shared
+ * again among the others, like flex items in CSS.
+ */
+export function distributeFlexWidths(
+  available: number,
+  columns: FlexColumn[],
+): Record<string, number> {
+  const widths: Record<string, number> = {};
+  let pending = columns;
+  let space = Math.max(0, available);
+
+  while (pending.length > 0) {
+    const totalWeight = pending.reduce((sum, c) => sum + c.weight, 0);
+    const shareOf = (column: FlexColumn) =>
+      totalWeight > 0 ? (space * column.weight) / totalWeight : 0;
+    const violating = pending.filter((column) => {
+      const share = shareOf(column);
+      return share < column.minWidth || share > column.maxWidth;
+    });
+    if (violating.length === 0) {
+      pending.forEach((column) => {
+        widths[column.accessor] = Math.floor(shareOf(column));
+      });
+      break;
+    }
+    violating.forEach((column) => {
+      const width = clampWidth(
+        shareOf(column),
+        column.minWidth,
+        column.maxWidth,
+      );
+      widths[column.accessor] = width;
+      space = Math.max(0, space - width);
+    });
+    pending = pending.filter((column) => !violating.includes(column));
+  }
+  return widths;
+}
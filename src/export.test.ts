@@ -0,0 +1,118 @@
+import { crc32 } from "node:zlib";
+import { describe, expect, it } from "vitest";
+import { parseTSV } from "./clipboard";
+import { buildExportTable, toDelimited, toXLSX } from "./export";
+import type { TableHeader, TableRow } from "./types";
+
+interface Item {
+  name: string;
+  qty: number | null;
+  active: boolean;
+  note: string;
+}
+
+const headers: TableHeader<Item>[] = [
+  { accessor: "name", label: "Name" },
+  { accessor: "qty", label: "Qty" },
+  { accessor: "active", label: "Active" },
+  { accessor: "note", label: "Note & more" },
+  { accessor: "actions", label: "" },
+];
+
+const rows: TableRow<Item>[] = [
+  { name: "Bolt", qty: 12, active: true, note: 'says "hi"\tthere' },
+  { name: "<Nut>", qty: null, active: false, note: "two\nlines" },
+].map((original, index) => ({ id: String(index), index, original }));
+
+// Reads the entries of an uncompressed ZIP, checking each CRC.
+function readStoredZip(bytes: Uint8Array): Record<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.length);
+  const decoder = new TextDecoder();
+  const files: Record<string, string> = {};
+  let pos = 0;
+  while (view.getUint32(pos, true) === 0x04034b50) {
+    expect(view.getUint16(pos + 8, true)).toBe(0);
+    const crc = view.getUint32(pos + 14, true);
+    const size = view.getUint32(pos + 18, true);
+    const nameLength = view.getUint16(pos + 26, true);
+    const extraLength = view.getUint16(pos + 28, true);
+    const start = pos + 30 + nameLength + extraLength;
+    const name = decoder.decode(bytes.subarray(pos + 30, start - extraLength));
+    const data = bytes.subarray(start, start + size);
+    expect(crc32(data)).toBe(crc);
+    files[name] = decoder.decode(data);
+    pos = start + size;
+  }
+  return files;
+}
+
+const unescapeXml = (text: string) =>
+  text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&amp;/g, "&");
+
+function readSheetCells(xml: string): Record<string, string> {
+  const cells: Record<string, string> = {};
+  const cellPattern =
+    /<c r="([A-Z]+\d+)"[^>]*>(?:<v>([^<]*)<\/v>|<is><t[^>]*>([^<]*)<\/t><\/is>)<\/c>/g;
+  for (const match of xml.matchAll(cellPattern)) {
+    cells[match[1]] = unescapeXml(match[2] ?? match[3]);
+  }
+  return cells;
+}
+
+describe("toDelimited", () => {
+  it("round-trips TSV through parseTSV", () => {
+    const table = buildExportTable(rows, headers);
+    expect(parseTSV(toDelimited(table, "\t", false))).toEqual([
+      ["Name", "Qty", "Active", "Note & more"],
+      ["Bolt", "12", "true", 'says "hi"\tthere'],
+      ["<Nut>", "", "false", "two\nlines"],
+    ]);
+  });
+
+  it("prefixes a BOM by default", () => {
+    const table = buildExportTable(rows, headers);
+    expect(toDelimited(table, ",").startsWith("\uFEFFName,Qty")).toBe(true);
+  });
+});
+
+describe("toXLSX", () => {
+  it("writes a readable workbook with the table's cells", () => {
+    const files = readStoredZip(toXLSX(buildExportTable(rows, headers)));
+    expect(Object.keys(files).sort()).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/_rels/workbook.xml.rels",
+      "xl/styles.xml",
+      "xl/workbook.xml",
+      "xl/worksheets/sheet1.xml",
+    ]);
+    expect(readSheetCells(files["xl/worksheets/sheet1.xml"])).toEqual({
+      A1: "Name",
+      B1: "Qty",
+      C1: "Active",
+      D1: "Note & more",
+      A2: "Bolt",
+      B2: "12",
+      C2: "1",
+      D2: 'says "hi"\tthere',
+      A3: "<Nut>",
+      C3: "0",
+      D3: "two\nlines",
+    });
+  });
+
+  it("stores dates as Excel serial numbers", () => {
+    const table = {
+      keys: ["at"],
+      labels: ["At"],
+      values: [[new Date(2024, 0, 2, 12)]],
+    };
+    const files = readStoredZip(toXLSX(table));
+    const cells = readSheetCells(files["xl/worksheets/sheet1.xml"]);
+    expect(cells.A2).toBe("45293.5");
+  });
+});
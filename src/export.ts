@@ -0,0 +1,384 @@
+import type { ExportCellValue, RowData, TableHeader, TableRow } from "./types";
+import { getAccessorValue } from "./utils";
+
+// ============= TypeScript Interfaces =============
+
+export type ExportFormat = "csv" | "tsv" | "json" | "xlsx";
+
+export type ExportScope = "page" | "all" | "selected";
+
+export interface ExportOptions {
+  format: ExportFormat;
+  /** Which rows to export. Defaults to `"all"` (every filtered row). */
+  scope?: ExportScope;
+  /** File name without extension. Defaults to `"table-export"`. */
+  filename?: string;
+  /** Prefix CSV/TSV output with a UTF-8 BOM (helps Excel). Defaults to `true`. */
+  bom?: boolean;
+  /** Trigger a browser download. Defaults to `true`. */
+  download?: boolean;
+}
+
+interface ExportTable {
+  keys: string[];
+  labels: string[];
+  values: ExportCellValue[][];
+}
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv;charset=utf-8",
+  tsv: "text/tab-separated-values;charset=utf-8",
+  json: "application/json;charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+// ============= Value Extraction =============
+
+function normalizeValue(value: unknown): ExportCellValue {
+  if (value === null || value === undefined) return null;
+  if (
+    typeof value === "string" ||
+    typeof value === "number" ||
+    typeof value === "boolean" ||
+    value instanceof Date
+  ) {
+    return value;
+  }
+  if (typeof value === "bigint") return value.toString();
+  try {
+    return JSON.stringify(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Plain value of a single cell, run through the header's `exportValue`.
+ */
+export function getExportValue<TRow extends RowData>(
+  row: TableRow<TRow>,
+  header: TableHeader<TRow>,
+): ExportCellValue {
+  const value = getAccessorValue(row, header.accessor);
+  const exportValue = header.exportValue as
+    | ((value: any, row: TableRow<TRow>) => ExportCellValue)
+    | undefined;
+  return normalizeValue(exportValue ? exportValue(value, row) : value);
+}
+
+/**
+ * Collects export values for the given rows and headers. `actions` columns
+ * and headers with `exportable: false` are skipped.
+ */
+export function buildExportTable<TRow extends RowData>(
+  rows: TableRow<TRow>[],
+  headers: TableHeader<TRow>[],
+): ExportTable {
+  const columns = headers.filter(
+    (h) => h.exportable ?? h.accessor !== "actions",
+  );
+  return {
+    keys: columns.map((h) => h.accessor),
+    labels: columns.map((h) => h.label),
+    values: rows.map((row) =>
+      columns.map((header) => getExportValue(row, header)),
+    ),
+  };
+}
+
+// ============= Serializers =============
+
+export function formatText(value: ExportCellValue): string {
+  if (value === null) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+export function quoteDelimited(text: string, delimiter: string): string {
+  if (
+    text.includes(delimiter) ||
+    text.includes('"') ||
+    text.includes("\n") ||
+    text.includes("\r") ||
+    text !== text.trim()
+  ) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+}
+
+export function toDelimited(
+  table: ExportTable,
+  delimiter: "," | "\t",
+  bom = true,
+): string {
+  const lines = [table.labels, ...table.values.map((r) => r.map(formatText))]
+    .map((cells) =>
+      cells.map((cell) => quoteDelimited(cell, delimiter)).join(delimiter),
+    )
+    .join("\r\n");
+  return (bom ? "\uFEFF" : "") + lines;
+}
+
+export function toJSON(table: ExportTable): string {
+  const records = table.values.map((values) => {
+    const record: Record<string, ExportCellValue> = {};
+    table.keys.forEach((key, idx) => {
+      record[key] = values[idx];
+    });
+    return record;
+  });
+  return JSON.stringify(records, null, 2);
+}
+
+// ============= Minimal XLSX Writer =============
+
+const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    // Control characters other than tab/newline are invalid in XML 1.0.
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+
+function columnName(index: number): string {
+  let name = "";
+  let n = index + 1;
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    name = String.fromCharCode(65 + rem) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+}
+
+// Excel serial date (days since 1899-12-30, local time).
+function toExcelDate(date: Date): number {
+  const utc = Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+  );
+  return utc / 86400000 + 25569;
+}
+
+function xlsxCell(value: ExportCellValue, ref: string, isHeader: boolean) {
+  if (value === null) return "";
+  const style = isHeader ? ' s="1"' : "";
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"${style}><v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"${style}><v>${value ? 1 : 0}</v></c>`;
+  }
+  if (value instanceof Date && !Number.isNaN(value.getTime())) {
+    return `<c r="${ref}" s="2"><v>${toExcelDate(value)}</v></c>`;
+  }
+  const text = escapeXml(formatText(value));
+  return `<c r="${ref}" t="inlineStr"${style}><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function buildSheetXml(table: ExportTable): string {
+  const rows = [table.labels as ExportCellValue[], ...table.values].map(
+    (cells, rowIdx) =>
+      `<row r="${rowIdx + 1}">${cells
+        .map((cell, colIdx) =>
+          xlsxCell(cell, `${columnName(colIdx)}${rowIdx + 1}`, rowIdx === 0),
+        )
+        .join("")}</row>`,
+  );
+  return (
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    `<sheetData>${rows.join("")}</sheetData></worksheet>`
+  );
+}
+
+const XLSX_STATIC_FILES: Record<string, string> = {
+  "[Content_Types].xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+    "</Types>",
+  "_rels/.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    "</Relationships>",
+  "xl/workbook.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Sheet1" sheetId="1" r:id="rId1"/></sheets>' +
+    "</workbook>",
+  "xl/_rels/workbook.xml.rels":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>' +
+    "</Relationships>",
+  // Style 1: bold header row. Style 2: date-time cells.
+  "xl/styles.xml":
+    '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<numFmts count="1"><numFmt numFmtId="164" formatCode="yyyy-mm-dd hh:mm:ss"/></numFmts>' +
+    '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+    '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+    '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+    '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+    '<cellXfs count="3"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+    '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>' +
+    '<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs>' +
+    '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>' +
+    "</styleSheet>",
+};
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      }
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Packs files into an uncompressed ("stored") ZIP archive.
+ */
+function createZip(files: Array<{ name: string; data: Uint8Array }>) {
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(({ name, data }) => {
+    const nameBytes = encoder.encode(name);
+    const crc = crc32(data);
+
+    const local = new Uint8Array(30 + nameBytes.length);
+    const lv = new DataView(local.buffer);
+    lv.setUint32(0, 0x04034b50, true);
+    lv.setUint16(4, 20, true); // version needed
+    lv.setUint16(6, 0x0800, true); // UTF-8 names
+    lv.setUint16(8, 0, true); // stored
+    lv.setUint32(14, crc, true);
+    lv.setUint32(18, data.length, true);
+    lv.setUint32(22, data.length, true);
+    lv.setUint16(26, nameBytes.length, true);
+    local.set(nameBytes, 30);
+
+    const entry = new Uint8Array(46 + nameBytes.length);
+    const cv = new DataView(entry.buffer);
+    cv.setUint32(0, 0x02014b50, true);
+    cv.setUint16(4, 20, true); // version made by
+    cv.setUint16(6, 20, true); // version needed
+    cv.setUint16(8, 0x0800, true);
+    cv.setUint16(10, 0, true);
+    cv.setUint32(16, crc, true);
+    cv.setUint32(20, data.length, true);
+    cv.setUint32(24, data.length, true);
+    cv.setUint16(28, nameBytes.length, true);
+    cv.setUint32(42, offset, true);
+    entry.set(nameBytes, 46);
+
+    chunks.push(local, data);
+    central.push(entry);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, c) => sum + c.length, 0);
+  const end = new Uint8Array(22);
+  const ev = new DataView(end.buffer);
+  ev.setUint32(0, 0x06054b50, true);
+  ev.setUint16(8, files.length, true);
+  ev.setUint16(10, files.length, true);
+  ev.setUint32(12, centralSize, true);
+  ev.setUint32(16, offset, true);
+
+  const out = new Uint8Array(offset + centralSize + end.length);
+  let pos = 0;
+  [...chunks, ...central, end].forEach((chunk) => {
+    out.set(chunk, pos);
+    pos += chunk.length;
+  });
+  return out;
+}
+
+export function toXLSX(table: ExportTable): Uint8Array {
+  const encoder = new TextEncoder();
+  const files = [
+    ...Object.entries(XLSX_STATIC_FILES).map(([name, xml]) => ({
+      name,
+      data: encoder.encode(xml),
+    })),
+    {
+      name: "xl/worksheets/sheet1.xml",
+      data: encoder.encode(buildSheetXml(table)),
+    },
+  ];
+  return createZip(files);
+}
+
+// ============= Public Entry Point =============
+
+/**
+ * Serializes rows to the requested format and (by default) downloads it.
+ */
+export function exportRows<TRow extends RowData>(
+  rows: TableRow<TRow>[],
+  headers: TableHeader<TRow>[],
+  options: ExportOptions,
+): Blob {
+  const { format, filename = "table-export", bom = true } = options;
+  const table = buildExportTable(rows, headers);
+
+  let content: BlobPart;
+  switch (format) {
+    case "csv":
+      content = toDelimited(table, ",", bom);
+      break;
+    case "tsv":
+      content = toDelimited(table, "\t", bom);
+      break;
+    case "json":
+      content = toJSON(table);
+      break;
+    case "xlsx":
+      // The archive owns its whole buffer, so it can be passed as-is.
+      content = toXLSX(table).buffer as ArrayBuffer;
+      break;
+    default:
+      throw new Error(`Unsupported export format: ${String(format)}`);
+  }
+
+  const blob = new Blob([content], { type: MIME_TYPES[format] });
+  if (options.download !== false && typeof document !== "undefined") {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${filename}.${format}`;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    window.setTimeout(() => URL.revokeObjectURL(url), 0);
+  }
+  return blob;
+}
@@ -0,0 +1,248 @@
+import type {
+  ColumnFilterConfig,
+  DisplayAccessor,
+  FilterValue,
+  RowData,
+  TableFilters,
+  TableHeader,
+  TableRow,
+} from "./types";
+import { getAccessorValue, isObject } from "./utils";
+
+// ============= Filter State Helpers =============
+
+export const EMPTY_FILTERS: TableFilters = { global: "", columns: {} };
+
+/** Row numbers and action buttons are not searchable content. */
+const DISPLAY_ACCESSORS: DisplayAccessor[] = ["#", "actions"];
+
+/**
+ * Normalizes the `filterable` shorthand on a header into a full config, or
+ * `null` when the column is not filterable.
+ */
+export function resolveFilterConfig<TRow extends RowData>(
+  header: TableHeader<TRow>,
+): ColumnFilterConfig<TRow> | null {
+  const { filterable } = header;
+  if (!filterable) return null;
+  if (filterable === true) return { type: "text" };
+  if (typeof filterable === "string") return { type: filterable };
+  return filterable as ColumnFilterConfig<TRow>;
+}
+
+export function createEmptyFilter(
+  config: ColumnFilterConfig<any>,
+): FilterValue {
+  switch (config.type) {
+    case "number":
+      return { type: "number", min: null, max: null };
+    case "date":
+      return { type: "date", from: null, to: null };
+    case "enum":
+      return { type: "enum", values: [] };
+    default:
+      return { type: "text", mode: config.textMode || "contains", value: "" };
+  }
+}
+
+const isNullableOf = (value: unknown, type: "number" | "string") =>
+  value === undefined || value === null || typeof value === type;
+
+/**
+ * Returns a well-formed copy of a filter read from storage or a URL, or
+ * `null` when it doesn't match any `FilterValue` variant.
+ */
+export function sanitizeFilterValue(value: unknown): FilterValue | null {
+  if (!isObject(value)) return null;
+  switch (value.type) {
+    case "text":
+      return typeof value.value === "string" &&
+        (value.mode === "contains" || value.mode === "equals")
+        ? { type: "text", mode: value.mode, value: value.value }
+        : null;
+    case "number":
+      return isNullableOf(value.min, "number") &&
+        isNullableOf(value.max, "number")
+        ? { type: "number", min: value.min ?? null, max: value.max ?? null }
+        : null;
+    case "date":
+      return isNullableOf(value.from, "string") &&
+        isNullableOf(value.to, "string")
+        ? { type: "date", from: value.from ?? null, to: value.to ?? null }
+        : null;
+    case "enum":
+      return Array.isArray(value.values) &&
+        value.values.every((v: unknown) => typeof v === "string")
+        ? { type: "enum", values: [...value.values] }
+        : null;
+    default:
+      return null;
+  }
+}
+
+/** Drops column filters that fail `sanitizeFilterValue`. */
+export function sanitizeColumnFilters(value: unknown): TableFilters["columns"] {
+  const columns: TableFilters["columns"] = {};
+  if (!isObject(value)) return columns;
+  Object.keys(value).forEach((accessor) => {
+    const filter = sanitizeFilterValue(value[accessor]);
+    if (filter) columns[accessor] = filter;
+  });
+  return columns;
+}
+
+export function sanitizeFilters(value: unknown): TableFilters | undefined {
+  if (!isObject(value)) return undefined;
+  return {
+    global: typeof value.global === "string" ? value.global : "",
+    columns: sanitizeColumnFilters(value.columns),
+  };
+}
+
+export function isFilterActive(filter: FilterValue | undefined): boolean {
+  if (!filter) return false;
+  switch (filter.type) {
+    case "text":
+      return filter.value.trim() !== "";
+    case "number":
+      return isFiniteNumber(filter.min) || isFiniteNumber(filter.max);
+    case "date":
+      return Boolean(filter.from) || Boolean(filter.to);
+    case "enum":
+      return filter.values.length > 0;
+    default:
+      return false;
+  }
+}
+
+export function hasActiveFilters(filters: TableFilters): boolean {
+  return (
+    filters.global.trim() !== "" ||
+    Object.values(filters.columns).some(isFilterActive)
+  );
+}
+
+// ============= Matching =============
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value);
+}
+
+function toComparableNumber(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (value === null || value === undefined || value === "") return NaN;
+  return Number(value);
+}
+
+function toTimestamp(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return NaN;
+  // Treat bare dates as local midnight to line up with <input type="date">.
+  const normalized = /^\d{4}-\d{2}-\d{2}$/.test(value)
+    ? `${value}T00:00:00`
+    : value;
+  return new Date(normalized).getTime();
+}
+
+function stringifyValue(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  if (value instanceof Date) return value.toISOString();
+  return String(value);
+}
+
+export function matchesFilter(value: unknown, filter: FilterValue): boolean {
+  switch (filter.type) {
+    case "text": {
+      const query = filter.value.trim().toLowerCase();
+      const text = stringifyValue(value).toLowerCase();
+      return filter.mode === "equals" ? text === query : text.includes(query);
+    }
+    case "number": {
+      const num = toComparableNumber(value);
+      if (Number.isNaN(num)) return false;
+      if (isFiniteNumber(filter.min) && num < filter.min) return false;
+      if (isFiniteNumber(filter.max) && num > filter.max) return false;
+      return true;
+    }
+    case "date": {
+      const time = toTimestamp(value);
+      if (Number.isNaN(time)) return false;
+      if (filter.from && time < toTimestamp(filter.from)) return false;
+      if (filter.to) {
+        // Inclusive upper bound: anything before the start of the next day.
+        const end = new Date(toTimestamp(filter.to));
+        end.setDate(end.getDate() + 1);
+        if (time >= end.getTime()) return false;
+      }
+      return true;
+    }
+    case "enum":
+      return filter.values.includes(stringifyValue(value));
+    default:
+      return true;
+  }
+}
+
+/**
+ * Applies the global quick-search and every active column filter.
+ */
+export function filterRows<TRow extends RowData>(
+  rows: TableRow<TRow>[],
+  headers: TableHeader<TRow>[],
+  filters: TableFilters,
+): TableRow<TRow>[] {
+  const query = filters.global.trim().toLowerCase();
+  const searchAccessors = headers
+    .map((h) => h.accessor as string)
+    .filter(
+      (accessor) => !DISPLAY_ACCESSORS.includes(accessor as DisplayAccessor),
+    );
+
+  const columnFilters = headers
+    .map((header) => {
+      const filter = filters.columns[header.accessor];
+      const config = resolveFilterConfig(header);
+      if (!config || !isFilterActive(filter)) return null;
+      return { accessor: header.accessor as string, filter, config };
+    })
+    .filter(<T>(entry: T | null): entry is T => entry !== null);
+
+  if (!query && columnFilters.length === 0) return rows;
+
+  return rows.filter((row) => {
+    if (
+      query &&
+      !searchAccessors.some((accessor) =>
+        stringifyValue(getAccessorValue(row, accessor))
+          .toLowerCase()
+          .includes(query),
+      )
+    ) {
+      return false;
+    }
+    return columnFilters.every(({ accessor, filter, config }) => {
+      const value = getAccessorValue(row, accessor);
+      return config.filterFn
+        ? config.filterFn(value, filter, row)
+        : matchesFilter(value, filter);
+    });
+  });
+}
+
+/**
+ * Distinct, sorted string values of a column for enum filter options.
+ */
+export function getEnumOptions<TRow extends RowData>(
+  rows: TableRow<TRow>[],
+  accessor: string,
+): string[] {
+  const values = new Set<string>();
+  rows.forEach((row) => {
+    const value = stringifyValue(getAccessorValue(row, accessor));
+    if (value !== "") values.add(value);
+  });
+  return Array.from(values).sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true }),
+  );
+}
@@ -0,0 +1,158 @@
+import type { RowData, SortConfig, TableHeader, TableRow } from "./types";
+import { getAccessorValue } from "./utils";
+import { sortRows, SortOptions } from "./sorting";
+
+// ============= TypeScript Interfaces =============
+
+export interface RowGroup<TRow extends RowData = RowData> {
+  /** Stable id built from the group path, e.g. `status=active/region=EU`. */
+  id: string;
+  accessor: string;
+  value: unknown;
+  depth: number;
+  /** Every leaf row in the group, in sorted order. */
+  rows: TableRow<TRow>[];
+  subGroups: RowGroup<TRow>[];
+}
+
+/** A body row: either a group header or a data row. */
+export type DisplayRow<TRow extends RowData = RowData> =
+  | { type: "row"; row: TableRow<TRow>; displayIndex: number }
+  | {
+      type: "group";
+      group: RowGroup<TRow>;
+      displayIndex: number;
+      /** Repeated at the top of a page that starts inside this group. */
+      continued?: boolean;
+    };
+
+// ============= Grouping =============
+
+const groupKey = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "";
+  if (value instanceof Date) return `d:${value.getTime()}`;
+  return `${typeof value}:${String(value)}`;
+};
+
+/**
+ * Groups already-sorted rows by one or more accessors, keeping the row
+ * order within each group. Groups are ordered by their value, following
+ * the sort direction when the grouped column is part of the sort.
+ */
+export function groupRows<TRow extends RowData>(
+  rows: TableRow<TRow>[],
+  groupBy: string[],
+  headers: TableHeader<TRow>[],
+  sort: SortConfig<TRow>[],
+  sortOptions: SortOptions,
+  depth = 0,
+  parentId = "",
+): RowGroup<TRow>[] {
+  const accessor = groupBy[depth];
+  if (accessor === undefined) return [];
+
+  const buckets = new Map<string, TableRow<TRow>[]>();
+  rows.forEach((row) => {
+    const key = groupKey(getAccessorValue(row, accessor));
+    const bucket = buckets.get(key);
+    if (bucket) bucket.push(row);
+    else buckets.set(key, [row]);
+  });
+
+  // Order groups by sorting one representative row per group.
+  const direction =
+    sort.find((s) => s.key === accessor)?.direction ?? ("asc" as const);
+  const orderedFirstRows = sortRows(
+    Array.from(buckets.values(), (bucket) => bucket[0]),
+    headers,
+    [{ key: accessor, direction } as SortConfig<TRow>],
+    sortOptions,
+  );
+
+  return orderedFirstRows.map((firstRow) => {
+    const value = getAccessorValue(firstRow, accessor);
+    const groupRowsList = buckets.get(groupKey(value)) as TableRow<TRow>[];
+    const id = `${parentId}${parentId ? "/" : ""}${accessor}=${groupKey(value)}`;
+    return {
+      id,
+      accessor,
+      value,
+      depth,
+      rows: groupRowsList,
+      subGroups: groupRows(
+        groupRowsList,
+        groupBy,
+        headers,
+        sort,
+        sortOptions,
+        depth + 1,
+        id,
+      ),
+    };
+  });
+}
+
+/**
+ * Flattens a group tree into body rows, skipping the children of
+ * collapsed groups.
+ */
+export function flattenGroups<TRow extends RowData>(
+  groups: RowGroup<TRow>[],
+  isCollapsed: (id: string) => boolean,
+): DisplayRow<TRow>[] {
+  const result: DisplayRow<TRow>[] = [];
+  const visit = (group: RowGroup<TRow>) => {
+    result.push({ type: "group", group, displayIndex: result.length });
+    if (isCollapsed(group.id)) return;
+    if (group.subGroups.length > 0) {
+      group.subGroups.forEach(visit);
+    } else {
+      group.rows.forEach((row) =>
+        result.push({ type: "row", row, displayIndex: result.length }),
+      );
+    }
+  };
+  groups.forEach(visit);
+  return result;
+}
+
+/**
+ * Slices one page of body rows. When the page starts inside a group, that
+ * group's headers (outermost first) are repeated as `continued` rows.
+ */
+export function paginateDisplayRows<TRow extends RowData>(
+  displayRows: DisplayRow<TRow>[],
+  start: number,
+  pageSize: number,
+): DisplayRow<TRow>[] {
+  const page = displayRows.slice(start, start + pageSize);
+  const first = page[0];
+  if (!first || start === 0) return page;
+
+  const firstDepth = first.type === "group" ? first.group.depth : Infinity;
+  const ancestors: DisplayRow<TRow>[] = [];
+  let depth = firstDepth;
+  for (let i = start - 1; i >= 0 && depth > 0; i--) {
+    const item = displayRows[i];
+    if (item.type === "group" && item.group.depth < depth) {
+      ancestors.unshift({ ...item, continued: true });
+      depth = item.group.depth;
+    }
+  }
+  return [...ancestors, ...page];
+}
+
+/**
+ * Ids of the groups (outermost first) containing a row.
+ */
+export function getRowGroupIds<TRow extends RowData>(
+  groups: RowGroup<TRow>[],
+  rowId: string,
+): string[] {
+  for (const group of groups) {
+    if (group.rows.some((row) => row.id === rowId)) {
+      return [group.id, ...getRowGroupIds(group.subGroups, rowId)];
+    }
+  }
+  return [];
+}
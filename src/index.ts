@@ -4,13 +4,90 @@ import "./styles.css";
 // Export components
 export { default as Table } from "./Table";
 export { default as ColumnVisibilityToggle } from "./ColumnVisibilityToggle";
+export { useTableExport } from "./useTableExport";
+export { useTable } from "./useTable";
+export {
+  TableLocaleProvider,
+  useTableLocale,
+  defaultMessages,
+} from "./localization";
+export {
+  localStorageAdapter,
+  sessionStorageAdapter,
+  createQueryStringStorage,
+} from "./stateStorage";
+export { migrateTableState, TABLE_STATE_VERSION } from "./tableState";
 
 // Export types for TypeScript consumers
 export type {
   TableProps,
+  TableHandle,
+  ScrollToRowOptions,
+  BulkActionsArgs,
+} from "./Table";
+
+export type {
+  RowData,
+  TableRow,
   TableHeader,
   SortConfig,
-} from "./Table";
+  SortDirection,
+  SortType,
+  PaginationMode,
+  ColumnSizingMode,
+  AccessorPath,
+  AccessorValue,
+  HeaderAccessor,
+  FilterType,
+  FilterValue,
+  TextFilterMode,
+  TableFilters,
+  ColumnFilterConfig,
+  EditorType,
+  EditorOption,
+  CellEditorRenderProps,
+  CellEditChange,
+  CellPasteChange,
+  ExportCellValue,
+  AggregateType,
+  ColumnPin,
+  ColumnPinning,
+  ColumnVisibility,
+} from "./types";
+
+export type {
+  TableState,
+  SavedTableView,
+  PersistedTableState,
+} from "./tableState";
+
+export type {
+  TableStateStorage,
+  QueryStringStorageOptions,
+} from "./stateStorage";
+
+export type { UrlSyncOptions } from "./urlState";
+
+export type {
+  TableMessages,
+  Message,
+  PluralMessage,
+  TextDirection,
+  TableLocalization,
+  LocalizationOptions,
+  TableLocaleProviderProps,
+} from "./localization";
+
+export type {
+  UseTableOptions,
+  UseTableResult,
+  HeaderModel,
+  CellModel,
+} from "./useTable";
+
+export type { DisplayRow, RowGroup } from "./grouping";
+
+export type { ExportFormat, ExportScope, ExportOptions } from "./export";
 
 export type {
   ColumnVisibilityToggleProps,
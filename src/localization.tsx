@@ -0,0 +1,418 @@
+import { createContext, useContext, useMemo } from "react";
+
+// ============= TypeScript Interfaces =============
+
+/** Forms picked with `Intl.PluralRules` from the `count` value. */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+/** A string with `{name}` placeholders, or plural forms of one. */
+export type Message = string | PluralMessage;
+
+export type TextDirection = "ltr" | "rtl";
+
+export interface TableMessages {
+  noRows: Message;
+  noMatchingRows: Message;
+  loading: Message;
+  searchPlaceholder: Message;
+  searchLabel: Message;
+  rowsPerPage: Message;
+  /** `{page}`, `{pageCount}` */
+  pageStatus: Message;
+  previousPage: Message;
+  nextPage: Message;
+  firstPage: Message;
+  lastPage: Message;
+  /** `{page}` */
+  goToPage: Message;
+  jumpToPage: Message;
+  pagination: Message;
+  /** `{start}`, `{end}`, `{total}` */
+  rangeSummary: Message;
+  loadMore: Message;
+  /** `{count}` */
+  selectedCount: Message;
+  selectRow: Message;
+  selectAllRows: Message;
+  selectPageRows: Message;
+  expandRow: Message;
+  collapseRow: Message;
+  expandAllRows: Message;
+  collapseAllRows: Message;
+  expandDetails: Message;
+  collapseDetails: Message;
+  expandPageDetails: Message;
+  collapsePageDetails: Message;
+  showDetails: Message;
+  hideDetails: Message;
+  loadingDetails: Message;
+  loadDetailsError: Message;
+  loadChildrenError: Message;
+  groupContinued: Message;
+  groupEmptyValue: Message;
+  /** `{column}` */
+  resizeColumn: Message;
+  /** `{column}` */
+  editCell: Message;
+  /** `{column}` */
+  columnOptions: Message;
+  pinLeft: Message;
+  pinRight: Message;
+  unpin: Message;
+  /** `{column}` */
+  columnMoved: Message;
+  /** `{columns}`, joined with `sortSeparator` */
+  sortedBy: Message;
+  /** `{column}` */
+  sortAscending: Message;
+  /** `{column}` */
+  sortDescending: Message;
+  sortSeparator: Message;
+  sortCleared: Message;
+  /** `{count}` */
+  cellsCopied: Message;
+  /** `{count}` */
+  cellsPasted: Message;
+  /** `{count}`; appended to `cellsPasted` */
+  cellsSkipped: Message;
+  /** `{column}` */
+  filterColumn: Message;
+  filterPlaceholder: Message;
+  filterMin: Message;
+  filterMax: Message;
+  /** `{column}` */
+  filterMinLabel: Message;
+  /** `{column}` */
+  filterMaxLabel: Message;
+  /** `{column}` */
+  filterFromLabel: Message;
+  /** `{column}` */
+  filterToLabel: Message;
+  filterAll: Message;
+  /** `{count}` */
+  filterSelectedCount: Message;
+  filterClear: Message;
+  filterEquals: Message;
+  filterContains: Message;
+  /** `{column}`, `{mode}` */
+  filterModeLabel: Message;
+  sortBy: Message;
+  sortByPlaceholder: Message;
+  sortedAscending: Message;
+  sortedDescending: Message;
+  reverseSort: Message;
+  export: Message;
+  exportRows: Message;
+  exportAllRows: Message;
+  exportCurrentPage: Message;
+  /** `{count}` */
+  exportSelectedRows: Message;
+  views: Message;
+  /** `{name}` */
+  activeView: Message;
+  viewName: Message;
+  rename: Message;
+  /** `{name}` */
+  renameView: Message;
+  delete: Message;
+  /** `{name}` */
+  deleteView: Message;
+  newViewName: Message;
+  save: Message;
+  /** `{name}` */
+  saveViewChanges: Message;
+  resetView: Message;
+  columns: Message;
+  toggleColumns: Message;
+  toggleColumnVisibility: Message;
+  selectAllColumns: Message;
+  deselectAllColumns: Message;
+  resetColumns: Message;
+  searchColumns: Message;
+  noMatchingColumns: Message;
+  /** `{count}` */
+  minVisibleColumns: Message;
+  /** `{column}` */
+  moveColumn: Message;
+}
+
+export type MessageValues = Record<string, string | number>;
+
+export interface TableLocalization {
+  /** BCP 47 tag; `undefined` uses the browser's locale. */
+  locale: string | undefined;
+  /** `undefined` inherits the direction of the surrounding document. */
+  direction: TextDirection | undefined;
+  messages: TableMessages;
+  /** Formats a message; number values go through `formatNumber`. */
+  t: (key: keyof TableMessages, values?: MessageValues) => string;
+  formatNumber: (value: number, options?: Intl.NumberFormatOptions) => string;
+}
+
+export interface LocalizationOptions {
+  locale?: string;
+  /** Merged over the inherited messages. */
+  messages?: Partial<TableMessages>;
+  /** Defaults to `"rtl"` for right-to-left locales such as Arabic. */
+  dir?: TextDirection;
+}
+
+export interface TableLocaleProviderProps extends LocalizationOptions {
+  children?: React.ReactNode;
+}
+
+// ============= Defaults =============
+
+export const defaultMessages: TableMessages = {
+  noRows: "No rows to display.",
+  noMatchingRows: "No rows match the current filters.",
+  loading: "Loading…",
+  searchPlaceholder: "Search…",
+  searchLabel: "Search table",
+  rowsPerPage: "Rows",
+  pageStatus: "Page {page} of {pageCount}",
+  previousPage: "Previous",
+  nextPage: "Next",
+  firstPage: "First page",
+  lastPage: "Last page",
+  goToPage: "Page {page}",
+  jumpToPage: "Go to page",
+  pagination: "Pagination",
+  rangeSummary: "Showing {start}–{end} of {total}",
+  loadMore: "Load more",
+  selectedCount: "{count} selected",
+  selectRow: "Select row",
+  selectAllRows: "Select all rows",
+  selectPageRows: "Select all rows on this page",
+  expandRow: "Expand row",
+  collapseRow: "Collapse row",
+  expandAllRows: "Expand all rows",
+  collapseAllRows: "Collapse all rows",
+  expandDetails: "Expand details",
+  collapseDetails: "Collapse details",
+  expandPageDetails: "Expand all rows on this page",
+  collapsePageDetails: "Collapse all rows on this page",
+  showDetails: "Show details",
+  hideDetails: "Hide details",
+  loadingDetails: "Loading details…",
+  loadDetailsError: "Could not load details.",
+  loadChildrenError: "Could not load child rows",
+  groupContinued: "(continued)",
+  groupEmptyValue: "(empty)",
+  resizeColumn: "Resize {column}",
+  editCell: "Edit {column}",
+  columnOptions: "{column} column options",
+  pinLeft: "Pin left",
+  pinRight: "Pin right",
+  unpin: "Unpin",
+  columnMoved: "Moved {column} column",
+  sortedBy: "Sorted by {columns}",
+  sortAscending: "{column} ascending",
+  sortDescending: "{column} descending",
+  sortSeparator: ", then ",
+  sortCleared: "Sorting cleared",
+  cellsCopied: { one: "Copied {count} cell", other: "Copied {count} cells" },
+  cellsPasted: { one: "Pasted {count} cell", other: "Pasted {count} cells" },
+  cellsSkipped: ", {count} skipped",
+  filterColumn: "Filter {column}",
+  filterPlaceholder: "Filter…",
+  filterMin: "Min",
+  filterMax: "Max",
+  filterMinLabel: "{column} minimum",
+  filterMaxLabel: "{column} maximum",
+  filterFromLabel: "{column} from",
+  filterToLabel: "{column} to",
+  filterAll: "All",
+  filterSelectedCount: "{count} selected",
+  filterClear: "Clear",
+  filterEquals: "Equals",
+  filterContains: "Contains",
+  filterModeLabel: "{column} match mode: {mode}",
+  sortBy: "Sort by",
+  sortByPlaceholder: "Sort by…",
+  sortedAscending: "Sorted ascending",
+  sortedDescending: "Sorted descending",
+  reverseSort: "Reverse sort order",
+  export: "Export",
+  exportRows: "Rows",
+  exportAllRows: "All rows",
+  exportCurrentPage: "Current page",
+  exportSelectedRows: "Selected rows ({count})",
+  views: "Views",
+  activeView: "View: {name}",
+  viewName: "View name",
+  rename: "Rename",
+  renameView: "Rename {name}",
+  delete: "Delete",
+  deleteView: "Delete {name}",
+  newViewName: "New view name",
+  save: "Save",
+  saveViewChanges: "Save changes to “{name}”",
+  resetView: "Reset to default",
+  columns: "Columns",
+  toggleColumns: "Toggle Columns",
+  toggleColumnVisibility: "Toggle column visibility",
+  selectAllColumns: "Select All",
+  deselectAllColumns: "Deselect all",
+  resetColumns: "Reset to default",
+  searchColumns: "Search columns…",
+  noMatchingColumns: "No matching columns.",
+  minVisibleColumns: {
+    one: "At least {count} column must stay visible",
+    other: "At least {count} columns must stay visible",
+  },
+  moveColumn: "Move {column} (use arrow keys)",
+};
+
+const RTL_LANGUAGES = new Set([
+  "ar",
+  "ckb",
+  "dv",
+  "fa",
+  "he",
+  "iw",
+  "ps",
+  "sd",
+  "ug",
+  "ur",
+  "yi",
+]);
+
+/** Text direction of a locale's script, or `undefined` without a locale. */
+export function getLocaleDirection(
+  locale: string | undefined,
+): TextDirection | undefined {
+  if (!locale) return undefined;
+  const [language, ...subtags] = locale.toLowerCase().split(/[-_]/);
+  // Script subtags win, e.g. Latin-script Azerbaijani vs Arabic-script.
+  if (subtags.includes("arab") || subtags.includes("hebr")) return "rtl";
+  if (subtags.includes("latn") || subtags.includes("cyrl")) return "ltr";
+  return RTL_LANGUAGES.has(language) ? "rtl" : "ltr";
+}
+
+// ============= Formatting =============
+
+// Intl constructors are slow; reuse one per locale (and options object).
+const pluralRulesCache = new Map<string, Intl.PluralRules>();
+const numberFormatCache = new Map<
+  string,
+  WeakMap<Intl.NumberFormatOptions, Intl.NumberFormat>
+>();
+const DEFAULT_NUMBER_FORMAT: Intl.NumberFormatOptions = {};
+
+function getPluralRules(locale: string | undefined) {
+  const key = locale ?? "";
+  let rules = pluralRulesCache.get(key);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRulesCache.set(key, rules);
+  }
+  return rules;
+}
+
+/** Cached `Intl.NumberFormat` for a locale and options object. */
+export function getNumberFormat(
+  locale: string | undefined,
+  options: Intl.NumberFormatOptions = DEFAULT_NUMBER_FORMAT,
+) {
+  const key = locale ?? "";
+  let byOptions = numberFormatCache.get(key);
+  if (!byOptions) {
+    byOptions = new WeakMap();
+    numberFormatCache.set(key, byOptions);
+  }
+  let format = byOptions.get(options);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    byOptions.set(options, format);
+  }
+  return format;
+}
+
+/**
+ * Fills `{name}` placeholders in a message. Plural messages pick a form
+ * from `values.count`; unknown placeholders are left as written.
+ */
+export function formatMessage(
+  message: Message,
+  values: MessageValues = {},
+  locale?: string,
+): string {
+  const template =
+    typeof message === "string"
+      ? message
+      : (message[getPluralRules(locale).select(Number(values.count ?? 0))] ??
+        message.other);
+  return template.replace(/\{(\w+)\}/g, (match, name: string) => {
+    const value = values[name];
+    if (value === undefined) return match;
+    return typeof value === "number"
+      ? getNumberFormat(locale).format(value)
+      : value;
+  });
+}
+
+function createLocalization(
+  locale: string | undefined,
+  direction: TextDirection | undefined,
+  messages: TableMessages,
+): TableLocalization {
+  return {
+    locale,
+    direction,
+    messages,
+    t: (key, values) => formatMessage(messages[key], values, locale),
+    formatNumber: (value, options) =>
+      getNumberFormat(locale, options).format(value),
+  };
+}
+
+// ============= Context =============
+
+export const TableLocaleContext = createContext<TableLocalization>(
+  createLocalization(undefined, undefined, defaultMessages),
+);
+
+/**
+ * The localization in effect: the nearest `TableLocaleProvider` (or the
+ * English defaults) with `options` applied on top.
+ */
+export function useTableLocale({
+  locale,
+  messages,
+  dir,
+}: LocalizationOptions = {}): TableLocalization {
+  const inherited = useContext(TableLocaleContext);
+  return useMemo(() => {
+    if (locale === undefined && messages === undefined && dir === undefined) {
+      return inherited;
+    }
+    const resolvedLocale = locale ?? inherited.locale;
+    return createLocalization(
+      resolvedLocale,
+      dir ??
+        (locale !== undefined
+          ? getLocaleDirection(locale)
+          : inherited.direction),
+      messages ? { ...inherited.messages, ...messages } : inherited.messages,
+    );
+  }, [inherited, locale, messages, dir]);
+}
+
+/**
+ * Sets the locale, messages and direction for every table below it.
+ * Providers nest; inner messages override outer ones key by key.
+ */
+export const TableLocaleProvider: React.FC<TableLocaleProviderProps> = ({
+  children,
+  ...options
+}) => {
+  const localization = useTableLocale(options);
+  return (
+    <TableLocaleContext.Provider value={localization}>
+      {children}
+    </TableLocaleContext.Provider>
+  );
+};
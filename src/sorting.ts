@@ -0,0 +1,202 @@
+import type {
+  RowData,
+  SortConfig,
+  SortDirection,
+  SortType,
+  TableHeader,
+  TableRow,
+} from "./types";
+import { getAccessorValue, isObject } from "./utils";
+
+// ============= TypeScript Interfaces =============
+
+export interface SortOptions {
+  locale?: string | string[];
+  collatorOptions?: Intl.CollatorOptions;
+  nullsPosition?: "first" | "last";
+}
+
+type Comparator<TRow extends RowData> = (
+  a: any,
+  b: any,
+  rowA: TableRow<TRow>,
+  rowB: TableRow<TRow>,
+) => number;
+
+// ============= Sort State Helpers =============
+
+export function normalizeSort<TRow extends RowData>(
+  sort: SortConfig<TRow> | SortConfig<TRow>[] | null | undefined,
+): SortConfig<TRow>[] {
+  if (!sort) return [];
+  return (Array.isArray(sort) ? sort : [sort]).filter((s) => Boolean(s?.key));
+}
+
+/**
+ * Keeps the well-formed `{ key, direction }` entries of a sort read from
+ * storage or a URL, and only the first entry for each key.
+ */
+export function sanitizeSort(
+  value: unknown,
+): Array<{ key: string; direction: SortDirection }> {
+  if (!Array.isArray(value)) return [];
+  const sort: Array<{ key: string; direction: SortDirection }> = [];
+  value.forEach((entry) => {
+    if (
+      isObject(entry) &&
+      typeof entry.key === "string" &&
+      entry.key !== "" &&
+      (entry.direction === "asc" || entry.direction === "desc") &&
+      !sort.some((s) => s.key === entry.key)
+    ) {
+      sort.push({ key: entry.key, direction: entry.direction });
+    }
+  });
+  return sort;
+}
+
+const nextDirection = (
+  direction: SortDirection | undefined,
+): SortDirection | null => {
+  if (!direction) return "asc";
+  return direction === "asc" ? "desc" : null;
+};
+
+/**
+ * Applies one header click to the sort state. Each column cycles
+ * asc → desc → none. A plain click makes the column the only sort key; an
+ * additive (shift) click adds, flips or removes it while keeping the others.
+ */
+export function toggleSort<TRow extends RowData>(
+  sort: SortConfig<TRow>[],
+  key: SortConfig<TRow>["key"],
+  additive: boolean,
+  maxSortColumns?: number,
+): SortConfig<TRow>[] {
+  const existing = sort.find((s) => s.key === key);
+  const direction = nextDirection(existing?.direction);
+
+  if (!additive) {
+    // Clicking a column that is part of a multi-sort restarts from it alone.
+    if (existing && sort.length > 1) return [{ key, direction: "asc" }];
+    return direction ? [{ key, direction }] : [];
+  }
+
+  if (!existing) {
+    const next = [...sort, { key, direction: "asc" as const }];
+    return maxSortColumns && maxSortColumns > 0
+      ? next.slice(-maxSortColumns)
+      : next;
+  }
+  if (!direction) return sort.filter((s) => s.key !== key);
+  return sort.map((s) => (s.key === key ? { key, direction } : s));
+}
+
+// ============= Comparators =============
+
+function toTimestamp(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "number") return value;
+  if (typeof value === "string") return new Date(value).getTime();
+  return NaN;
+}
+
+function isEmptyValue(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value === "string") return value.trim() === "";
+  if (typeof value === "number") return Number.isNaN(value);
+  if (value instanceof Date) return Number.isNaN(value.getTime());
+  return false;
+}
+
+function getComparator<TRow extends RowData>(
+  header: TableHeader<TRow> | undefined,
+  options: SortOptions,
+): Comparator<TRow> {
+  if (header?.sortFn) return header.sortFn as Comparator<TRow>;
+
+  const stringCollator = new Intl.Collator(
+    options.locale,
+    options.collatorOptions,
+  );
+  const naturalCollator = new Intl.Collator(options.locale, {
+    ...options.collatorOptions,
+    numeric: true,
+  });
+
+  switch (header?.sortType) {
+    case "number":
+      return (a, b) => Number(a) - Number(b);
+    case "date":
+      return (a, b) => toTimestamp(a) - toTimestamp(b);
+    case "string":
+      return (a, b) => stringCollator.compare(String(a), String(b));
+    case "natural":
+      return (a, b) => naturalCollator.compare(String(a), String(b));
+    default:
+      // Auto-detect: numbers and dates compare by value, everything else
+      // naturally so "9" sorts before "10".
+      return (a, b) => {
+        if (typeof a === "number" && typeof b === "number") return a - b;
+        if (a instanceof Date && b instanceof Date) {
+          return a.getTime() - b.getTime();
+        }
+        if (typeof a === "boolean" && typeof b === "boolean") {
+          return Number(a) - Number(b);
+        }
+        return naturalCollator.compare(String(a), String(b));
+      };
+  }
+}
+
+function isEmptyForType(value: unknown, sortType: SortType | undefined) {
+  if (isEmptyValue(value)) return true;
+  if (sortType === "number") return Number.isNaN(Number(value));
+  if (sortType === "date") return Number.isNaN(toTimestamp(value));
+  return false;
+}
+
+// ============= Sorting =============
+
+/**
+ * Stable multi-key sort. Empty values (null, undefined, blank strings, NaN)
+ * are grouped first or last independent of the sort direction.
+ */
+export function sortRows<TRow extends RowData>(
+  rows: TableRow<TRow>[],
+  headers: TableHeader<TRow>[],
+  sort: SortConfig<TRow>[],
+  options: SortOptions = {},
+): TableRow<TRow>[] {
+  if (sort.length === 0) return rows;
+  const nullsFactor = options.nullsPosition === "first" ? -1 : 1;
+
+  const keys = sort.map(({ key, direction }) => {
+    const header = headers.find((h) => h.accessor === key);
+    return {
+      key: key as string,
+      sign: direction === "desc" ? -1 : 1,
+      sortType: header?.sortType,
+      hasCustomFn: Boolean(header?.sortFn),
+      compare: getComparator(header, options),
+    };
+  });
+
+  return [...rows].sort((rowA, rowB) => {
+    for (const { key, sign, sortType, hasCustomFn, compare } of keys) {
+      const a = getAccessorValue(rowA, key);
+      const b = getAccessorValue(rowB, key);
+      if (!hasCustomFn) {
+        const aEmpty = isEmptyForType(a, sortType);
+        const bEmpty = isEmptyForType(b, sortType);
+        if (aEmpty || bEmpty) {
+          if (aEmpty && bEmpty) continue;
+          return (aEmpty ? 1 : -1) * nullsFactor;
+        }
+      }
+      const result = compare(a, b, rowA, rowB);
+      if (result !== 0 && !Number.isNaN(result)) return result * sign;
+    }
+    return 0;
+  });
+}
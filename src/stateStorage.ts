@@ -0,0 +1,80 @@
+import type { PersistedTableState } from "./tableState";
+
+// ============= TypeScript Interfaces =============
+
+/**
+ * Where `Table` keeps its state. `load` may return any previously saved
+ * payload (it is migrated before use) and both methods may be async. A
+ * failing `save` should throw or reject; `Table` reports it.
+ */
+export interface TableStateStorage {
+  load: (key: string) => unknown | Promise<unknown>;
+  save: (key: string, value: PersistedTableState) => void | Promise<void>;
+}
+
+export interface QueryStringStorageOptions {
+  /** `"push"` adds a history entry per change. Defaults to `"replace"`. */
+  history?: "replace" | "push";
+}
+
+// ============= Built-in Adapters =============
+
+function createWebStorage(
+  getStorage: () => Storage | undefined,
+): TableStateStorage {
+  return {
+    load: (key) => {
+      try {
+        const raw = getStorage()?.getItem(key);
+        return raw ? JSON.parse(raw) : null;
+      } catch {
+        return null;
+      }
+    },
+    save: (key, value) => {
+      getStorage()?.setItem(key, JSON.stringify(value));
+    },
+  };
+}
+
+export const localStorageAdapter = createWebStorage(() =>
+  typeof window === "undefined" ? undefined : window.localStorage,
+);
+
+export const sessionStorageAdapter = createWebStorage(() =>
+  typeof window === "undefined" ? undefined : window.sessionStorage,
+);
+
+/**
+ * Keeps the state in a query-string parameter named after the storage key.
+ * Saved views are not written to the URL.
+ */
+export function createQueryStringStorage({
+  history = "replace",
+}: QueryStringStorageOptions = {}): TableStateStorage {
+  return {
+    load: (key) => {
+      if (typeof window === "undefined") return null;
+      const raw = new URLSearchParams(window.location.search).get(key);
+      if (!raw) return null;
+      try {
+        return JSON.parse(raw);
+      } catch {
+        return null;
+      }
+    },
+    save: (key, value) => {
+      if (typeof window === "undefined") return;
+      const url = new URL(window.location.href);
+      url.searchParams.set(
+        key,
+        JSON.stringify({ version: value.version, state: value.state }),
+      );
+      if (history === "push") {
+        window.history.pushState(window.history.state, "", url);
+      } else {
+        window.history.replaceState(window.history.state, "", url);
+      }
+    },
+  };
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from "vitest";
+import {
+  migrateTableState,
+  sanitizeTableState,
+  TABLE_STATE_VERSION,
+} from "./tableState";
+
+describe("migrateTableState", () => {
+  it("upgrades a bare width map written by columnWidthsStorageKey", () => {
+    expect(migrateTableState({ name: 120, email: "30%" })).toEqual({
+      version: TABLE_STATE_VERSION,
+      state: { columnWidths: { name: 120, email: "30%" } },
+      views: [],
+      activeViewId: null,
+    });
+  });
+
+  it("parses string payloads", () => {
+    const payload = {
+      version: TABLE_STATE_VERSION,
+      state: { rowsPerPage: 20 },
+      views: [],
+      activeViewId: null,
+    };
+    expect(migrateTableState(JSON.stringify(payload))).toEqual(payload);
+  });
+
+  it("rejects unreadable payloads and newer versions", () => {
+    expect(migrateTableState("{not json")).toBeNull();
+    expect(migrateTableState(null)).toBeNull();
+    expect(migrateTableState([1, 2])).toBeNull();
+    expect(
+      migrateTableState({ version: TABLE_STATE_VERSION + 1, state: {} }),
+    ).toBeNull();
+  });
+
+  it("drops malformed views and a dangling activeViewId", () => {
+    const migrated = migrateTableState({
+      version: TABLE_STATE_VERSION,
+      state: {},
+      views: [
+        { id: "a", name: "Mine", state: { groupBy: ["region"] } },
+        { id: "b", state: {} },
+        "nope",
+      ],
+      activeViewId: "b",
+    });
+    expect(migrated?.views).toEqual([
+      { id: "a", name: "Mine", state: { groupBy: ["region"] } },
+    ]);
+    expect(migrated?.activeViewId).toBeNull();
+  });
+
+  it("sanitizes the state of saved views", () => {
+    const migrated = migrateTableState({
+      version: TABLE_STATE_VERSION,
+      state: {},
+      views: [
+        {
+          id: "a",
+          name: "Broken",
+          state: { filters: { columns: { name: { type: "text" } } } },
+        },
+      ],
+      activeViewId: null,
+    });
+    expect(migrated?.views[0].state).toEqual({
+      filters: { global: "", columns: {} },
+    });
+  });
+});
+
+describe("sanitizeTableState", () => {
+  it("keeps well-formed fields", () => {
+    const state = {
+      columnWidths: { name: 120, email: "30%" },
+      columnVisibility: { email: false },
+      columnOrder: ["email", "name"],
+      columnPinning: { name: "left", email: null },
+      sort: [{ key: "name", direction: "desc" }],
+      filters: {
+        global: "ann",
+        columns: {
+          name: { type: "text", mode: "equals", value: "Ann" },
+          age: { type: "number", min: 18, max: null },
+          joined: { type: "date", from: "2024-01-01", to: null },
+          role: { type: "enum", values: ["admin"] },
+        },
+      },
+      rowsPerPage: 25,
+      groupBy: ["role"],
+    };
+    expect(sanitizeTableState(state)).toEqual(state);
+  });
+
+  it("drops filters that don't match their type", () => {
+    const state = sanitizeTableState({
+      filters: {
+        global: 42,
+        columns: {
+          a: { type: "text" },
+          b: { type: "text", mode: "fuzzy", value: "x" },
+          c: { type: "enum" },
+          d: { type: "enum", values: [1] },
+          e: { type: "number", min: "5" },
+          f: { type: "date", from: 20240101 },
+          g: { type: "regex", value: ".*" },
+          h: null,
+          ok: { type: "number", max: 3 },
+        },
+      },
+    });
+    expect(state.filters).toEqual({
+      global: "",
+      columns: { ok: { type: "number", min: null, max: 3 } },
+    });
+  });
+
+  it("drops malformed sort entries and repeated keys", () => {
+    const state = sanitizeTableState({
+      sort: [
+        { key: "name", direction: "asc" },
+        { key: "name", direction: "desc" },
+        { key: "age", direction: "up" },
+        { key: 3, direction: "asc" },
+        { key: "", direction: "asc" },
+        "email",
+      ],
+    });
+    expect(state.sort).toEqual([{ key: "name", direction: "asc" }]);
+  });
+
+  it("drops fields of the wrong shape", () => {
+    expect(
+      sanitizeTableState({
+        columnWidths: { name: true, email: 80 },
+        columnVisibility: { name: "no" },
+        columnOrder: "name",
+        columnPinning: { name: "top" },
+        sort: "name",
+        filters: "name",
+        rowsPerPage: -5,
+        groupBy: [1],
+      }),
+    ).toEqual({
+      columnWidths: { email: 80 },
+      columnVisibility: {},
+      columnPinning: {},
+      sort: [],
+    });
+    expect(sanitizeTableState("state")).toEqual({});
+  });
+});
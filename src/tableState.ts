@@ -0,0 +1,167 @@
+import { sanitizeFilters } from "./filtering";
+import { sanitizeSort } from "./sorting";
+import type {
+  ColumnPinning,
+  ColumnVisibility,
+  SortDirection,
+  TableFilters,
+} from "./types";
+import { isObject } from "./utils";
+
+// ============= TypeScript Interfaces =============
+
+/**
+ * Serializable snapshot of the user-adjustable parts of a table. Every field
+ * is optional so partial states (older views, `setState` patches) can be
+ * applied; missing fields fall back to the table's defaults.
+ */
+export interface TableState {
+  columnWidths?: Record<string, string | number>;
+  columnVisibility?: ColumnVisibility;
+  columnOrder?: string[];
+  columnPinning?: ColumnPinning;
+  sort?: Array<{ key: string; direction: SortDirection }>;
+  filters?: TableFilters;
+  rowsPerPage?: number;
+  groupBy?: string[];
+}
+
+export interface SavedTableView {
+  id: string;
+  name: string;
+  state: TableState;
+}
+
+/** What storage adapters read and write. */
+export interface PersistedTableState {
+  version: number;
+  state: TableState;
+  views: SavedTableView[];
+  activeViewId: string | null;
+}
+
+// ============= Schema Versioning =============
+
+export const TABLE_STATE_VERSION = 1;
+
+// Each entry upgrades a payload from its key's version to the next one.
+const MIGRATIONS: Record<number, (payload: any) => any> = {
+  // Unversioned payloads are bare width maps, as written by
+  // `columnWidthsStorageKey`.
+  0: (widths) => ({
+    version: 1,
+    state: { columnWidths: widths },
+    views: [],
+    activeViewId: null,
+  }),
+};
+
+// ============= Sanitizing =============
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === "string");
+
+const pickEntries = <T>(
+  value: unknown,
+  isValid: (entry: unknown) => entry is T,
+): Record<string, T> | undefined => {
+  if (!isObject(value)) return undefined;
+  const result: Record<string, T> = {};
+  Object.keys(value).forEach((key) => {
+    if (isValid(value[key])) result[key] = value[key];
+  });
+  return result;
+};
+
+/**
+ * Keeps the well-formed fields of a stored state. Payloads can be corrupt,
+ * hand-edited or written by another app under the same key, and a malformed
+ * filter or sort would otherwise throw while rendering.
+ */
+export function sanitizeTableState(raw: unknown): TableState {
+  if (!isObject(raw)) return {};
+  const state: TableState = {};
+  const columnWidths = pickEntries(
+    raw.columnWidths,
+    (width): width is string | number =>
+      typeof width === "string" || typeof width === "number",
+  );
+  if (columnWidths) state.columnWidths = columnWidths;
+  const columnVisibility = pickEntries(
+    raw.columnVisibility,
+    (visible): visible is boolean => typeof visible === "boolean",
+  );
+  if (columnVisibility) state.columnVisibility = columnVisibility;
+  if (isStringArray(raw.columnOrder)) state.columnOrder = raw.columnOrder;
+  const columnPinning = pickEntries(
+    raw.columnPinning,
+    (pin): pin is ColumnPinning[string] =>
+      pin === "left" || pin === "right" || pin === null,
+  );
+  if (columnPinning) state.columnPinning = columnPinning;
+  if (raw.sort !== undefined) state.sort = sanitizeSort(raw.sort);
+  const filters = sanitizeFilters(raw.filters);
+  if (filters) state.filters = filters;
+  if (Number.isInteger(raw.rowsPerPage) && raw.rowsPerPage > 0) {
+    state.rowsPerPage = raw.rowsPerPage;
+  }
+  if (isStringArray(raw.groupBy)) state.groupBy = raw.groupBy;
+  return state;
+}
+
+// ============= Migrations =============
+
+/**
+ * Upgrades a stored payload to the current schema. Returns `null` for
+ * anything unreadable, including payloads written by a newer version.
+ */
+export function migrateTableState(raw: unknown): PersistedTableState | null {
+  let payload: any = raw;
+  if (typeof payload === "string") {
+    try {
+      payload = JSON.parse(payload);
+    } catch {
+      return null;
+    }
+  }
+  if (!isObject(payload)) return null;
+
+  let version = typeof payload.version === "number" ? payload.version : 0;
+  if (version > TABLE_STATE_VERSION) return null;
+  while (version < TABLE_STATE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) return null;
+    payload = migrate(payload);
+    version += 1;
+  }
+
+  const views: SavedTableView[] = Array.isArray(payload.views)
+    ? payload.views
+        .filter(
+          (view: any) =>
+            isObject(view) &&
+            typeof view.id === "string" &&
+            typeof view.name === "string" &&
+            isObject(view.state),
+        )
+        .map((view: any) => ({
+          id: view.id,
+          name: view.name,
+          state: sanitizeTableState(view.state),
+        }))
+    : [];
+  const activeViewId = views.some((view) => view.id === payload.activeViewId)
+    ? (payload.activeViewId as string)
+    : null;
+
+  return {
+    version,
+    state: sanitizeTableState(payload.state),
+    views,
+    activeViewId,
+  };
+}
+
+/** Unique enough for views saved by one user. */
+export const createViewId = () =>
+  `view-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
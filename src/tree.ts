@@ -0,0 +1,80 @@
+import type { RowData, TableRow } from "./types";
+
+// ============= TypeScript Interfaces =============
+
+export interface FlattenTreeOptions<TRow extends RowData> {
+  getChildren: (row: TableRow<TRow>) => TableRow<TRow>[] | undefined;
+  isExpanded: (id: string) => boolean;
+  /** Orders one level of siblings. */
+  sortLevel: (rows: TableRow<TRow>[]) => TableRow<TRow>[];
+  /** Ids matching the active filters, or `null` when unfiltered. */
+  matchedIds: Set<string> | null;
+}
+
+// ============= Tree Utilities =============
+
+/**
+ * Pre-order list of every known node (expanded or not).
+ */
+export function collectTreeRows<TRow extends RowData>(
+  roots: TableRow<TRow>[],
+  getChildren: (row: TableRow<TRow>) => TableRow<TRow>[] | undefined,
+): TableRow<TRow>[] {
+  const result: TableRow<TRow>[] = [];
+  const visit = (row: TableRow<TRow>) => {
+    result.push(row);
+    getChildren(row)?.forEach(visit);
+  };
+  roots.forEach(visit);
+  return result;
+}
+
+/**
+ * Flattens the visible part of a tree. Siblings are sorted per level, so
+ * children always stay directly under their parent. When filtering, a node
+ * is kept if it matches or has a matching descendant.
+ */
+export function flattenTree<TRow extends RowData>(
+  roots: TableRow<TRow>[],
+  { getChildren, isExpanded, sortLevel, matchedIds }: FlattenTreeOptions<TRow>,
+): TableRow<TRow>[] {
+  const keepCache = new Map<string, boolean>();
+  const keep = (row: TableRow<TRow>): boolean => {
+    if (!matchedIds) return true;
+    const cached = keepCache.get(row.id);
+    if (cached !== undefined) return cached;
+    const result =
+      matchedIds.has(row.id) || (getChildren(row) ?? []).some(keep);
+    keepCache.set(row.id, result);
+    return result;
+  };
+
+  const result: TableRow<TRow>[] = [];
+  const visit = (level: TableRow<TRow>[]) => {
+    sortLevel(level.filter(keep)).forEach((row) => {
+      result.push(row);
+      const children = getChildren(row);
+      if (children && isExpanded(row.id)) visit(children);
+    });
+  };
+  visit(roots);
+  return result;
+}
+
+/**
+ * Ids of every ancestor of the given rows.
+ */
+export function getAncestorIds<TRow extends RowData>(
+  rows: TableRow<TRow>[],
+  rowsById: Map<string, TableRow<TRow>>,
+): Set<string> {
+  const ancestors = new Set<string>();
+  rows.forEach((row) => {
+    let parentId = row.parentId;
+    while (parentId !== undefined && !ancestors.has(parentId)) {
+      ancestors.add(parentId);
+      parentId = rowsById.get(parentId)?.parentId;
+    }
+  });
+  return ancestors;
+}
@@ -0,0 +1,312 @@
+// ============= Row Types =============
+
+/**
+ * Base constraint for row objects passed to `manualRowData`.
+ */
+export type RowData = object;
+
+type Primitive =
+  | string
+  | number
+  | boolean
+  | bigint
+  | symbol
+  | null
+  | undefined
+  | Date;
+
+type IsAny<T> = 0 extends 1 & T ? true : false;
+
+// Depth counter for nested accessor paths (limits recursion to 3 levels).
+type PrevDepth = [never, 0, 1, 2];
+
+/**
+ * Every key of `TRow` plus nested dot-paths (e.g. `"customer.name"`).
+ * Falls back to `string` for untyped rows.
+ */
+export type AccessorPath<TRow, Depth extends number = 3> =
+  IsAny<TRow> extends true
+    ? string
+    : [Depth] extends [never]
+      ? never
+      : TRow extends Primitive | readonly unknown[]
+        ? never
+        : {
+            [K in keyof TRow & (string | number)]:
+              | `${K}`
+              | (IsAny<TRow[K]> extends true
+                  ? `${K}.${string}`
+                  : NonNullable<TRow[K]> extends
+                        | Primitive
+                        | readonly unknown[]
+                        | ((...args: any[]) => unknown)
+                    ? never
+                    : `${K}.${AccessorPath<NonNullable<TRow[K]>, PrevDepth[Depth]>}`);
+          }[keyof TRow & (string | number)];
+
+/**
+ * Resolves the value type reached by an accessor path.
+ */
+export type AccessorValue<TRow, TPath extends string> =
+  IsAny<TRow> extends true
+    ? any
+    : TPath extends keyof TRow
+      ? TRow[TPath]
+      : TPath extends `${infer Head}.${infer Rest}`
+        ? Head extends keyof TRow
+          ?
+              | AccessorValue<NonNullable<TRow[Head]>, Rest>
+              | (undefined extends TRow[Head] ? undefined : never)
+              | (null extends TRow[Head] ? undefined : never)
+          : undefined
+        : undefined;
+
+/**
+ * Display-only accessors: `"#"` renders the 1-based row number and
+ * `"actions"` cells stop row-click propagation.
+ */
+export type DisplayAccessor = "#" | "actions";
+
+export type HeaderAccessor<TRow> = AccessorPath<TRow> | DisplayAccessor;
+
+export type HeaderValue<TRow, TAccessor extends string> = TAccessor extends "#"
+  ? number
+  : AccessorValue<TRow, TAccessor>;
+
+/**
+ * Row wrapper handed to renderers and callbacks.
+ */
+export interface TableRow<TRow extends RowData = RowData> {
+  id: string;
+  /** Position among its siblings in the source data. */
+  index: number;
+  original: TRow;
+  /** Tree data only: nesting level (0 for top-level rows). */
+  depth?: number;
+  /** Tree data only: id of the parent row. */
+  parentId?: string;
+}
+
+// ============= Sort Types =============
+
+export type SortDirection = "asc" | "desc";
+
+export type SortType = "number" | "date" | "string" | "natural";
+
+// ============= Pagination Types =============
+
+export type PaginationMode = "pages" | "loadMore" | "infinite";
+
+// ============= Column Sizing Types =============
+
+/**
+ * How columns without a `width` are sized: by the browser (`"fixed"`), to
+ * their content (`"fitContent"`), or sharing the container by `flex` weight.
+ */
+export type ColumnSizingMode = "fixed" | "fitContent" | "flex";
+
+// ============= Filter Types =============
+
+export type FilterType = "text" | "number" | "date" | "enum";
+
+export type TextFilterMode = "contains" | "equals";
+
+/**
+ * Serializable filter state for a single column. Dates are `YYYY-MM-DD`
+ * strings (inclusive on both ends).
+ */
+export type FilterValue =
+  | { type: "text"; mode: TextFilterMode; value: string }
+  | { type: "number"; min?: number | null; max?: number | null }
+  | { type: "date"; from?: string | null; to?: string | null }
+  | { type: "enum"; values: string[] };
+
+export interface TableFilters {
+  /** Quick-search text matched against every data column. */
+  global: string;
+  /** Column filters keyed by header accessor. */
+  columns: Record<string, FilterValue>;
+}
+
+export interface ColumnFilterConfig<
+  TRow extends RowData = RowData,
+  TValue = any,
+> {
+  type: FilterType;
+  /** Initial mode for text filters. Defaults to `"contains"`. */
+  textMode?: TextFilterMode;
+  /** Options for enum filters. Derived from the column values when omitted. */
+  options?: string[];
+  placeholder?: string;
+  /** Replaces the built-in matcher for this column. */
+  filterFn?: (
+    value: TValue,
+    filter: FilterValue,
+    row: TableRow<TRow>,
+  ) => boolean;
+}
+
+// ============= Editing Types =============
+
+export type EditorType = "text" | "number" | "select" | "checkbox" | "date";
+
+export interface EditorOption {
+  label: string;
+  value: string | number;
+}
+
+/**
+ * Props passed to a custom `editor` render function.
+ */
+export interface CellEditorRenderProps<
+  TRow extends RowData = RowData,
+  TValue = any,
+> {
+  row: TableRow<TRow>;
+  value: TValue;
+  onChange: (value: TValue) => void;
+  /** Validates and commits; pass a value to commit it directly. */
+  commit: (value?: TValue) => void;
+  cancel: () => void;
+  error: string | null;
+  pending: boolean;
+}
+
+export interface CellEditChange<TRow extends RowData = RowData> {
+  rowId: string;
+  accessor: string;
+  oldValue: any;
+  newValue: any;
+  row: TableRow<TRow>;
+}
+
+export interface CellPasteChange<TRow extends RowData = RowData> {
+  rowId: string;
+  accessor: string;
+  value: any;
+  oldValue: any;
+  row: TableRow<TRow>;
+}
+
+// ============= Aggregation Types =============
+
+export type AggregateType = "sum" | "avg" | "min" | "max" | "count";
+
+// ============= Export Types =============
+
+export type ExportCellValue = string | number | boolean | Date | null;
+
+// ============= Column Types =============
+
+export type ColumnPin = "left" | "right";
+
+/** Pinned columns by accessor; absent or `null` means unpinned. */
+export type ColumnPinning = Record<string, ColumnPin | null>;
+
+/**
+ * Shown (`true`) or hidden (`false`) columns by accessor. Absent columns
+ * follow their `defaultHidden`.
+ */
+export type ColumnVisibility = Record<string, boolean>;
+
+interface TableHeaderBase<TRow extends RowData, TAccessor extends string> {
+  accessor: TAccessor;
+  label: string;
+  isSortable?: boolean;
+  /** Built-in comparison to use. Auto-detected from the values when omitted. */
+  sortType?: SortType;
+  /** Ascending comparator; overrides `sortType` and null handling. */
+  sortFn?: (
+    a: HeaderValue<TRow, TAccessor>,
+    b: HeaderValue<TRow, TAccessor>,
+    rowA: TableRow<TRow>,
+    rowB: TableRow<TRow>,
+  ) => number;
+  width?: string | number;
+  minWidth?: string | number;
+  /** Upper bound for resizing, auto-sizing and flex sizing. */
+  maxWidth?: string | number;
+  /**
+   * Share of the free space in `columnSizing="flex"`, relative to other
+   * columns without a `width`. Defaults to `1`.
+   */
+  flex?: number;
+  /** Keeps the column in view while scrolling horizontally. */
+  pinned?: ColumnPin;
+  /** Offer pin/unpin in the header menu. Defaults to `true`. */
+  pinnable?: boolean;
+  /** Allow drag-and-drop reordering. Defaults to `true`. */
+  reorderable?: boolean;
+  /** Allow hiding the column. Defaults to `true`. */
+  hideable?: boolean;
+  /** Start hidden until shown from the column visibility menu. */
+  defaultHidden?: boolean;
+  /** Section heading for the column in the column visibility menu. */
+  columnGroup?: string;
+  /**
+   * Field order in mobile cards, lowest first. Fields without one follow in
+   * column order.
+   */
+  mobilePriority?: number;
+  /** Leave the field out of mobile cards. */
+  hideOnMobile?: boolean;
+  /** `true` is shorthand for a text filter. */
+  filterable?:
+    | boolean
+    | FilterType
+    | ColumnFilterConfig<TRow, HeaderValue<TRow, TAccessor>>;
+  editable?: boolean | ((row: TableRow<TRow>) => boolean);
+  /** Built-in editor or a render function. Defaults to `"text"`. */
+  editor?:
+    | EditorType
+    | ((
+        props: CellEditorRenderProps<TRow, HeaderValue<TRow, TAccessor>>,
+      ) => React.ReactNode);
+  /** Choices for the `"select"` editor. */
+  editorOptions?: Array<string | EditorOption>;
+  /** Return an error message to block the commit. */
+  validate?: (
+    value: HeaderValue<TRow, TAccessor>,
+    row: TableRow<TRow>,
+  ) => string | null | undefined;
+  cellRenderer?: (args: {
+    row: TableRow<TRow>;
+    value: HeaderValue<TRow, TAccessor>;
+  }) => React.ReactNode;
+  /** Summary shown in group header rows and the footer row. */
+  aggregate?:
+    | AggregateType
+    | ((
+        values: HeaderValue<TRow, TAccessor>[],
+        rows: TableRow<TRow>[],
+      ) => unknown);
+  /** Number formatting for `aggregate` results. */
+  aggregateFormat?: Intl.NumberFormatOptions;
+  /** Static footer content, e.g. `"Total"`. */
+  footer?: React.ReactNode;
+  /** Custom footer cell; `value` is the column's `aggregate` result. */
+  footerRenderer?: (args: {
+    value: unknown;
+    rows: TableRow<TRow>[];
+  }) => React.ReactNode;
+  /** Include in exports. Defaults to `true` except for `actions`. */
+  exportable?: boolean;
+  /** Plain value written to exports in place of the raw cell value. */
+  exportValue?: (
+    value: HeaderValue<TRow, TAccessor>,
+    row: TableRow<TRow>,
+  ) => ExportCellValue;
+}
+
+/**
+ * Column definition. Distributes over every accessor so `cellRenderer`
+ * receives a `value` typed from its own `accessor`.
+ */
+export type TableHeader<TRow extends RowData = RowData> = {
+  [A in HeaderAccessor<TRow>]: TableHeaderBase<TRow, A>;
+}[HeaderAccessor<TRow>];
+
+export interface SortConfig<TRow extends RowData = RowData> {
+  key: HeaderAccessor<TRow>;
+  direction: SortDirection;
+}
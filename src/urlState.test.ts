@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { readUrlState, UrlTableState, writeUrlState } from "./urlState";
+
+const defaults: UrlTableState = {
+  sort: [],
+  page: 1,
+  rowsPerPage: 10,
+  filters: { global: "", columns: {} },
+};
+
+describe("writeUrlState / readUrlState", () => {
+  it("round-trips sort, page, size and filters", () => {
+    const state: UrlTableState = {
+      sort: [
+        { key: "name", direction: "asc" },
+        { key: "age", direction: "desc" },
+      ],
+      page: 3,
+      rowsPerPage: 25,
+      filters: {
+        global: "a&b c",
+        columns: {
+          name: { type: "text", mode: "contains", value: "ann" },
+          role: { type: "enum", values: ["admin", "editor"] },
+        },
+      },
+    };
+    const search = writeUrlState("", "table", state, defaults);
+    expect(readUrlState(search, "table")).toEqual(state);
+  });
+
+  it("omits defaults and keeps unrelated parameters", () => {
+    const search = writeUrlState(
+      "tab=2&table.page=4",
+      "table",
+      { ...defaults, rowsPerPage: 50 },
+      defaults,
+    );
+    const params = new URLSearchParams(search);
+    expect(params.get("tab")).toBe("2");
+    expect(params.get("table.size")).toBe("50");
+    expect(params.has("table.page")).toBe(false);
+    expect(params.has("table.sort")).toBe(false);
+  });
+
+  it("reads only its own namespace", () => {
+    const search = "a.sort=-name&b.sort=age";
+    expect(readUrlState(search, "a").sort).toEqual([
+      { key: "name", direction: "desc" },
+    ]);
+    expect(readUrlState(search, "b").sort).toEqual([
+      { key: "age", direction: "asc" },
+    ]);
+  });
+});
+
+describe("readUrlState", () => {
+  it("drops column filters that don't match their type", () => {
+    const filters = {
+      a: { type: "text" },
+      b: { type: "enum" },
+      c: { type: "number", min: "1" },
+      d: { type: "date", from: "2024-01-01" },
+    };
+    const search = new URLSearchParams({
+      "table.filters": JSON.stringify(filters),
+    }).toString();
+    expect(readUrlState(search, "table").filters).toEqual({
+      global: "",
+      columns: { d: { type: "date", from: "2024-01-01", to: null } },
+    });
+  });
+
+  it("ignores truncated or non-object filter JSON", () => {
+    expect(readUrlState('table.filters={"a":', "table")).toEqual({});
+    expect(readUrlState("table.filters=[1]", "table")).toEqual({});
+  });
+
+  it("skips empty and repeated sort keys", () => {
+    expect(readUrlState("table.sort=name,,-,-name,age", "table").sort).toEqual([
+      { key: "name", direction: "asc" },
+      { key: "age", direction: "asc" },
+    ]);
+  });
+
+  it("ignores page and size values that aren't positive integers", () => {
+    expect(readUrlState("table.page=0&table.size=2.5", "table")).toEqual({});
+  });
+});
@@ -0,0 +1,136 @@
+import { sanitizeColumnFilters } from "./filtering";
+import { sanitizeSort } from "./sorting";
+import type { SortDirection, TableFilters } from "./types";
+import { isObject } from "./utils";
+
+// ============= TypeScript Interfaces =============
+
+export interface UrlSyncOptions {
+  /**
+   * Prefix for the query parameters (`<namespace>.sort`, `.page`, `.size`,
+   * `.q`, `.filters`). Defaults to `"table"`; use one per table on a page.
+   */
+  namespace?: string;
+  /**
+   * `"push"` adds a history entry when the sort, page or page size changes;
+   * filter edits always replace the current entry. Defaults to `"replace"`.
+   */
+  history?: "replace" | "push";
+}
+
+/** The slice of table state mirrored in the URL. */
+export interface UrlTableState {
+  sort: Array<{ key: string; direction: SortDirection }>;
+  page: number;
+  rowsPerPage: number;
+  filters: TableFilters;
+}
+
+// ============= Encoding =============
+
+// `name,-age` sorts by name ascending, then age descending.
+const encodeSort = (sort: UrlTableState["sort"]) =>
+  sort
+    .map(({ key, direction }) => (direction === "desc" ? `-${key}` : key))
+    .join(",");
+
+const decodeSort = (value: string): UrlTableState["sort"] =>
+  sanitizeSort(
+    value
+      .split(",")
+      .map((part) =>
+        part.startsWith("-")
+          ? { key: part.slice(1), direction: "desc" }
+          : { key: part, direction: "asc" },
+      ),
+  );
+
+const decodePositiveInt = (value: string) => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+const encodeColumnFilters = (columns: TableFilters["columns"]) =>
+  Object.keys(columns).length > 0 ? JSON.stringify(columns) : "";
+
+// Shared links can be hand-edited or truncated, so each filter is checked
+// against its type and malformed ones are dropped.
+const decodeColumnFilters = (value: string) => {
+  try {
+    const parsed = JSON.parse(value);
+    return isObject(parsed) ? sanitizeColumnFilters(parsed) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const paramNames = (namespace: string) => {
+  const prefix = namespace ? `${namespace}.` : "";
+  return {
+    sort: `${prefix}sort`,
+    page: `${prefix}page`,
+    size: `${prefix}size`,
+    global: `${prefix}q`,
+    columns: `${prefix}filters`,
+  };
+};
+
+/**
+ * Reads the fields present under `namespace`. Missing or malformed
+ * parameters are left out so the caller can fall back to its own values.
+ */
+export function readUrlState(
+  search: string,
+  namespace: string,
+): Partial<UrlTableState> {
+  const params = new URLSearchParams(search);
+  const names = paramNames(namespace);
+  const state: Partial<UrlTableState> = {};
+
+  const sort = params.get(names.sort);
+  if (sort !== null) state.sort = decodeSort(sort);
+  const page = decodePositiveInt(params.get(names.page) ?? "");
+  if (page) state.page = page;
+  const size = decodePositiveInt(params.get(names.size) ?? "");
+  if (size) state.rowsPerPage = size;
+
+  const global = params.get(names.global);
+  const columnsParam = params.get(names.columns);
+  const columns =
+    columnsParam === null ? undefined : decodeColumnFilters(columnsParam);
+  if (global !== null || columns) {
+    state.filters = { global: global ?? "", columns: columns ?? {} };
+  }
+  return state;
+}
+
+/**
+ * Returns `search` (without the leading `?`) with the namespace's parameters
+ * replaced by `state`. Values equal to `defaults` are omitted to keep shared
+ * links short; other parameters are preserved.
+ */
+export function writeUrlState(
+  search: string,
+  namespace: string,
+  state: UrlTableState,
+  defaults: UrlTableState,
+): string {
+  const params = new URLSearchParams(search);
+  const names = paramNames(namespace);
+  const entries: Array<[string, string, string]> = [
+    [names.sort, encodeSort(state.sort), encodeSort(defaults.sort)],
+    [names.page, String(state.page), String(defaults.page)],
+    [names.size, String(state.rowsPerPage), String(defaults.rowsPerPage)],
+    [names.global, state.filters.global, defaults.filters.global],
+    [
+      names.columns,
+      encodeColumnFilters(state.filters.columns),
+      encodeColumnFilters(defaults.filters.columns),
+    ],
+  ];
+  entries.forEach(([name, value, fallback]) => {
+    if (value === fallback) params.delete(name);
+    else params.set(name, value);
+  });
+  return params.toString();
+}
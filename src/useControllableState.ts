@@ -0,0 +1,40 @@
+import { useCallback, useRef, useState } from "react";
+
+export type StateUpdater<T> = T | ((prev: T) => T);
+
+/**
+ * State that can be either controlled (value prop supplied) or uncontrolled
+ * (internal state seeded from a default). `onChange` fires for every update
+ * in both modes.
+ */
+export function useControllableState<T>(
+  controlledValue: T | undefined,
+  defaultValue: T | (() => T),
+  onChange?: (value: T) => void,
+): [T, (next: StateUpdater<T>) => void] {
+  const [internalValue, setInternalValue] = useState<T>(defaultValue);
+  const isControlled = controlledValue !== undefined;
+  const value = isControlled ? controlledValue : internalValue;
+
+  // Keep the latest value/callback in refs so the setter stays stable and
+  // functional updates always see the current value.
+  const valueRef = useRef(value);
+  valueRef.current = value;
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+  const isControlledRef = useRef(isControlled);
+  isControlledRef.current = isControlled;
+
+  const setValue = useCallback((next: StateUpdater<T>) => {
+    const resolved =
+      typeof next === "function"
+        ? (next as (prev: T) => T)(valueRef.current)
+        : next;
+    if (Object.is(resolved, valueRef.current)) return;
+    valueRef.current = resolved;
+    if (!isControlledRef.current) setInternalValue(resolved);
+    onChangeRef.current?.(resolved);
+  }, []);
+
+  return [value, setValue];
+}
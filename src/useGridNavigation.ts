@@ -0,0 +1,177 @@
+import { RefObject, useRef, useState } from "react";
+import { useIsomorphicLayoutEffect } from "./utils";
+import type { TextDirection } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+/** Grid cell coordinates; `row` is -1 for the header row. */
+export interface GridPosition {
+  row: number;
+  col: number;
+}
+
+export interface GridNavigationOptions {
+  /** Body rows on the current page. */
+  rowCount: number;
+  colCount: number;
+  /** Cells in a body row (full-width rows expose a single cell). */
+  getRowColCount?: (row: number) => number;
+  gridRef: RefObject<HTMLElement | null>;
+  /** Enter / Space on a cell. */
+  onActivate: (position: GridPosition, e: React.KeyboardEvent) => void;
+  /** PageUp / PageDown; return `true` when a page change happened. */
+  onPageStep?: (delta: 1 | -1) => boolean;
+  /** Alt+Arrow on a header cell. */
+  onHeaderResize?: (col: number, delta: number) => void;
+  /** Ctrl+Shift+Arrow on a header cell; return `true` when the column moved. */
+  onHeaderMove?: (col: number, delta: 1 | -1) => boolean;
+  /** Called before focusing a body row so virtualized rows get rendered. */
+  ensureRowVisible?: (row: number) => void;
+  /** Rows skipped by PageUp / PageDown when not paginating. */
+  pageJump?: number;
+  /** In `"rtl"`, ArrowLeft moves to the next column. */
+  direction?: TextDirection;
+}
+
+export interface GridNavigationResult {
+  focused: GridPosition;
+  getTabIndex: (row: number, col: number) => 0 | -1;
+  handleKeyDown: (e: React.KeyboardEvent) => void;
+  handleFocus: (e: React.FocusEvent) => void;
+}
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.max(min, Math.min(max, value));
+
+// ============= Hook =============
+
+/**
+ * Roving-tabindex grid navigation (WAI-ARIA grid pattern). Cells must carry
+ * `data-apt-row` and `data-apt-col`; only the focused cell is tabbable.
+ * Keys are ignored when they originate inside a cell's content (inputs,
+ * buttons, editors).
+ */
+export function useGridNavigation({
+  rowCount,
+  colCount,
+  getRowColCount,
+  gridRef,
+  onActivate,
+  onPageStep,
+  onHeaderResize,
+  onHeaderMove,
+  ensureRowVisible,
+  pageJump = 10,
+  direction = "ltr",
+}: GridNavigationOptions): GridNavigationResult {
+  const [position, setPosition] = useState<GridPosition>({ row: -1, col: 0 });
+  const pendingFocusRef = useRef(false);
+
+  const colsInRow = (row: number) =>
+    row >= 0 && getRowColCount ? getRowColCount(row) : colCount;
+
+  // Keep the tab stop on an existing cell as rows/columns come and go.
+  const focusedRow = clamp(position.row, -1, rowCount - 1);
+  const focused: GridPosition = {
+    row: focusedRow,
+    col: clamp(position.col, 0, Math.max(0, colsInRow(focusedRow) - 1)),
+  };
+
+  useIsomorphicLayoutEffect(() => {
+    if (!pendingFocusRef.current || !gridRef.current) return;
+    const cell = gridRef.current.querySelector<HTMLElement>(
+      `[data-apt-row="${focused.row}"][data-apt-col="${focused.col}"]`,
+    );
+    // Virtualized rows may need another render before they exist.
+    if (!cell) return;
+    pendingFocusRef.current = false;
+    cell.focus();
+  });
+
+  const moveTo = (row: number, col: number) => {
+    const nextRow = clamp(row, -1, rowCount - 1);
+    const nextCol = clamp(col, 0, Math.max(0, colsInRow(nextRow) - 1));
+    if (nextRow >= 0) ensureRowVisible?.(nextRow);
+    pendingFocusRef.current = true;
+    setPosition({ row: nextRow, col: nextCol });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    const target = e.target as HTMLElement;
+    if (target.dataset.aptCol === undefined) return;
+    const row = Number(target.dataset.aptRow);
+    const col = Number(target.dataset.aptCol);
+    const lastCol = colsInRow(row) - 1;
+    const isCtrl = e.ctrlKey || e.metaKey;
+
+    switch (e.key) {
+      case "ArrowRight":
+      case "ArrowLeft": {
+        const forwardKey = direction === "rtl" ? "ArrowLeft" : "ArrowRight";
+        const delta = e.key === forwardKey ? 1 : -1;
+        if (e.altKey && row === -1 && onHeaderResize) {
+          onHeaderResize(col, delta * (e.shiftKey ? 50 : 10));
+        } else if (isCtrl && e.shiftKey && row === -1 && onHeaderMove) {
+          // Keep focus on the moved column.
+          if (onHeaderMove(col, delta)) moveTo(row, col + delta);
+        } else {
+          moveTo(row, col + delta);
+        }
+        break;
+      }
+      case "ArrowDown":
+        moveTo(row + 1, col);
+        break;
+      case "ArrowUp":
+        moveTo(row - 1, col);
+        break;
+      case "Home":
+        if (isCtrl) moveTo(-1, 0);
+        else moveTo(row, 0);
+        break;
+      case "End":
+        if (isCtrl) moveTo(rowCount - 1, colCount - 1);
+        else moveTo(row, lastCol);
+        break;
+      case "PageDown":
+      case "PageUp": {
+        const delta = e.key === "PageDown" ? 1 : -1;
+        if (onPageStep?.(delta)) {
+          pendingFocusRef.current = true;
+          setPosition({ row: Math.max(row, 0), col });
+        } else {
+          moveTo(Math.max(row, 0) + delta * pageJump, col);
+        }
+        break;
+      }
+      case "Enter":
+      case " ":
+      case "F2":
+        onActivate({ row, col }, e);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const handleFocus = (e: React.FocusEvent) => {
+    const cell = (e.target as HTMLElement).closest<HTMLElement>(
+      "[data-apt-col]",
+    );
+    if (!cell || !gridRef.current?.contains(cell)) return;
+    const row = Number(cell.dataset.aptRow);
+    const col = Number(cell.dataset.aptCol);
+    if (row !== position.row || col !== position.col) {
+      setPosition({ row, col });
+    }
+  };
+
+  return {
+    focused,
+    getTabIndex: (row, col) =>
+      row === focused.row && col === focused.col ? 0 : -1,
+    handleKeyDown,
+    handleFocus,
+  };
+}
@@ -0,0 +1,1198 @@
+import {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+  CSSProperties,
+} from "react";
+import type {
+  AccessorPath,
+  ColumnFilterConfig,
+  ColumnSizingMode,
+  FilterValue,
+  HeaderAccessor,
+  PaginationMode,
+  RowData,
+  SortConfig,
+  SortDirection,
+  TableFilters,
+  TableHeader,
+  TableRow,
+} from "./types";
+import {
+  getAccessorValue,
+  isDevelopment,
+  parseWidthValue,
+  useIsomorphicLayoutEffect,
+} from "./utils";
+import { StateUpdater, useControllableState } from "./useControllableState";
+import {
+  EMPTY_FILTERS,
+  filterRows,
+  getEnumOptions,
+  hasActiveFilters,
+  resolveFilterConfig,
+} from "./filtering";
+import { normalizeSort, sortRows, toggleSort } from "./sorting";
+import {
+  DisplayRow,
+  flattenGroups,
+  groupRows,
+  paginateDisplayRows,
+  RowGroup,
+} from "./grouping";
+import { collectTreeRows, flattenTree, getAncestorIds } from "./tree";
+import { clampWidth, distributeFlexWidths, FlexColumn } from "./columnSizing";
+import { TableMessages, TextDirection, useTableLocale } from "./localization";
+
+// ============= TypeScript Interfaces =============
+
+export interface UseTableOptions<TRow extends RowData = RowData> {
+  data: TRow[];
+  /**
+   * Stable id for a row; defaults to its `id` field, then its index. Default
+   * child ids are prefixed with the parent's (`"parent/child"`); ids from
+   * `getRowId` are used as-is, so they must be unique across the whole tree.
+   */
+  getRowId?: (row: TRow, index: number, parent?: TableRow<TRow>) => string;
+  /** Every column definition. Initial widths are taken from these. */
+  columns: TableHeader<TRow>[];
+  /** Columns to render, in display order. Defaults to `columns`. */
+  visibleColumns?: TableHeader<TRow>[];
+  sort?: SortConfig<TRow>[];
+  defaultSort?: SortConfig<TRow> | SortConfig<TRow>[] | null;
+  onSortChange?: (sort: SortConfig<TRow>[]) => void;
+  enableMultiSort?: boolean;
+  maxSortColumns?: number;
+  sortLocale?: string | string[];
+  collatorOptions?: Intl.CollatorOptions;
+  nullsPosition?: "first" | "last";
+  filters?: TableFilters;
+  defaultFilters?: TableFilters;
+  onFiltersChange?: (filters: TableFilters) => void;
+  /** Rows are used as given; sorting, filtering and paging happen elsewhere. */
+  manual?: boolean;
+  totalRowCount?: number;
+  paginate?: boolean;
+  /**
+   * `"pages"` shows one page at a time. `"loadMore"` and `"infinite"` keep
+   * the first `page` pages and grow through `loadMore()`.
+   */
+  paginationMode?: PaginationMode;
+  page?: number;
+  defaultPage?: number;
+  onPageChange?: (page: number) => void;
+  rowsPerPage?: number;
+  defaultRowsPerPage?: number;
+  onRowsPerPageChange?: (value: number) => void;
+  groupBy?: AccessorPath<TRow>[];
+  defaultGroupBy?: AccessorPath<TRow>[];
+  onGroupByChange?: (groupBy: AccessorPath<TRow>[]) => void;
+  defaultGroupsCollapsed?: boolean;
+  getSubRows?: (row: TRow) => TRow[] | undefined;
+  loadChildren?: (row: TableRow<TRow>) => Promise<TRow[]>;
+  hasChildren?: (row: TRow) => boolean;
+  expandedIds?: Set<string>;
+  defaultExpandedIds?: Set<string>;
+  onExpandedIdsChange?: (expandedIds: Set<string>) => void;
+  /** Called when `loadChildren` rejects; the row is collapsed again. */
+  onLoadChildrenError?: (row: TableRow<TRow>, error: unknown) => void;
+  minColWidth?: number;
+  /** How columns without a `width` are sized. Defaults to `"fixed"`. */
+  columnSizing?: ColumnSizingMode;
+  /**
+   * Called with the new width in pixels when a column is resized (at the end
+   * of a drag) or auto-sized.
+   */
+  onColumnResize?: (accessor: string, width: number) => void;
+  /** Below `mobileBreakpoint`, header clicks auto-size instead of sorting. */
+  mobileAutoSizeOnHeaderClick?: boolean;
+  mobileBreakpoint?: number;
+  /** Overrides the locale from `TableLocaleProvider`. */
+  locale?: string;
+  messages?: Partial<TableMessages>;
+  /** In `"rtl"`, resize drags and arrow keys are mirrored. */
+  dir?: TextDirection;
+}
+
+export interface HeaderModel<TRow extends RowData = RowData> {
+  column: TableHeader<TRow>;
+  accessor: string;
+  index: number;
+  width: string | number | undefined;
+  /** Minimum width in pixels. */
+  minWidth: number;
+  /** Maximum width in pixels, if the column sets one. */
+  maxWidth: number | undefined;
+  isSortable: boolean;
+  sortDirection: SortDirection | null;
+  /** Position in a multi-column sort, or -1. */
+  sortIndex: number;
+  /** Header clicks sort or, on mobile with auto-size enabled, resize. */
+  isClickable: boolean;
+  toggleSort: (additive?: boolean) => void;
+}
+
+export interface CellModel<TRow extends RowData = RowData> {
+  column: TableHeader<TRow>;
+  accessor: string;
+  value: any;
+  /** `cellRenderer` output, or the raw value. */
+  content: React.ReactNode;
+}
+
+export interface UseTableResult<TRow extends RowData = RowData> {
+  /** Normalized top-level rows. */
+  rows: TableRow<TRow>[];
+  /** Every known row, including collapsed descendants in tree mode. */
+  allRows: TableRow<TRow>[];
+  filteredRows: TableRow<TRow>[];
+  sortedRows: TableRow<TRow>[];
+  /** Group header and data rows after grouping, across all pages. */
+  displayRows: DisplayRow<TRow>[];
+  /** Group header and data rows on the current page. */
+  pageItems: DisplayRow<TRow>[];
+  /** Data rows on the current page. */
+  pageRows: TableRow<TRow>[];
+  headers: HeaderModel<TRow>[];
+  getCells: (row: TableRow<TRow>) => CellModel<TRow>[];
+
+  sort: SortConfig<TRow>[];
+  setSort: (next: StateUpdater<SortConfig<TRow>[]>) => void;
+  toggleSort: (accessor: string, additive?: boolean) => void;
+
+  filters: TableFilters;
+  setFilters: (next: StateUpdater<TableFilters>) => void;
+  setColumnFilter: (accessor: string, filter: FilterValue) => void;
+  setGlobalFilter: (global: string) => void;
+  isFiltered: boolean;
+  /** Parallel to `headers`; `null` for columns without a filter. */
+  filterConfigs: Array<ColumnFilterConfig<TRow> | null>;
+  enumOptions: Record<string, string[]>;
+
+  paginationMode: PaginationMode;
+  /** Requested page; may exceed `pageCount` until rows arrive. */
+  currentPage: number;
+  /** Current page clamped to the available pages. */
+  page: number;
+  setPage: (next: StateUpdater<number>) => void;
+  pageCount: number;
+  rowsPerPage: number;
+  setRowsPerPage: (next: StateUpdater<number>) => void;
+  isPaginated: boolean;
+  /** Rows (or group and data rows) across every page. */
+  totalCount: number;
+  /** 1-based positions of the first and last rendered row in `totalCount`. */
+  visibleRange: { start: number; end: number };
+  /** `loadMore` / `infinite` modes: pages remain to be appended. */
+  hasMore: boolean;
+  /** Appends the next page in `loadMore` / `infinite` modes. */
+  loadMore: () => void;
+
+  groupBy: string[];
+  setGroupBy: (next: StateUpdater<AccessorPath<TRow>[]>) => void;
+  isGrouped: boolean;
+  groups: RowGroup<TRow>[];
+  isGroupCollapsed: (id: string) => boolean;
+  toggleGroups: (ids: string[]) => void;
+
+  isTree: boolean;
+  expandedIds: Set<string>;
+  setExpandedIds: (next: StateUpdater<Set<string>>) => void;
+  loadingChildIds: Set<string>;
+  getChildRows: (row: TableRow<TRow>) => TableRow<TRow>[] | undefined;
+  canExpandTreeRow: (row: TableRow<TRow>) => boolean;
+  toggleTreeRow: (row: TableRow<TRow>) => void;
+  expandAll: () => void;
+  collapseAll: () => void;
+
+  columnWidths: Record<string, string | number>;
+  setColumnWidths: (
+    next: StateUpdater<Record<string, string | number>>,
+  ) => void;
+  /** Widths from the column definitions; `undefined` for auto columns. */
+  initialColumnWidths: Record<string, string | number | undefined>;
+  columnSizing: ColumnSizingMode;
+  resizeColumnBy: (accessor: string, delta: number) => void;
+  /** Fits a column to its label and the text of the rows on the page. */
+  autoSizeColumn: (accessor: string) => void;
+  autoSizeAllColumns: () => void;
+  resetColumnWidth: (accessor: string) => void;
+  isMobile: boolean;
+  /** What a header click does: sort, or toggle auto-size on mobile. */
+  activateHeader: (accessor: string, additive?: boolean) => void;
+
+  tableRef: React.RefObject<HTMLTableElement | null>;
+  getTableProps: () => {
+    ref: React.RefObject<HTMLTableElement | null>;
+    role: "grid" | "treegrid";
+  };
+  getHeaderProps: (header: HeaderModel<TRow>) => {
+    "data-accessor": string;
+    "aria-sort": React.AriaAttributes["aria-sort"];
+    onClick: (e: React.MouseEvent) => void;
+    onMouseDown: (e: React.MouseEvent) => void;
+  };
+  getResizerProps: (header: HeaderModel<TRow>) => {
+    role: "separator";
+    "aria-orientation": "vertical";
+    "aria-label": string;
+    tabIndex: number;
+    onPointerDown: (e: React.PointerEvent) => void;
+    onClick: (e: React.MouseEvent) => void;
+    onDoubleClick: (e: React.MouseEvent) => void;
+    onKeyDown: (e: React.KeyboardEvent) => void;
+  };
+  getRowProps: (row: TableRow<TRow>) => {
+    "aria-level": number | undefined;
+    "aria-expanded": boolean | undefined;
+  };
+  getCellProps: (
+    row: TableRow<TRow>,
+    cell: CellModel<TRow>,
+  ) => {
+    "data-row-id": string;
+    "data-accessor": string;
+  };
+  /** Column sizing styles for a `<col>` (or a header cell). */
+  getColumnStyle: (header: HeaderModel<TRow>) => CSSProperties;
+}
+
+// Non-distributed renderer signature used when iterating mixed headers.
+type CellRenderer<TRow extends RowData> = (args: {
+  row: TableRow<TRow>;
+  value: any;
+}) => React.ReactNode;
+
+// ============= Utilities =============
+
+// Auto-sizing measures at most this many rows of the current page.
+const MAX_MEASURED_ROWS = 500;
+
+// Padding and borders of a cell, used when no header cell can be measured.
+const DEFAULT_CELL_CHROME = 16;
+
+/**
+ * Uses the row's own `id` field, then its position. Position-based ids move
+ * when the data is re-ordered, so pass `getRowId` for such data.
+ */
+function defaultGetRowId(row: RowData, index: number): string {
+  const rawId = (row as Record<string, unknown>).id;
+  const id = rawId !== undefined && rawId !== null ? String(rawId).trim() : "";
+  return id || `row${index}`;
+}
+
+// Expansion, selection, edits and React keys all go by row id, so a repeated
+// id makes them act on the wrong row.
+function warnDuplicateRowIds(rows: Iterable<TableRow>) {
+  if (!isDevelopment()) return;
+  const seen = new Set<string>();
+  const duplicates = new Set<string>();
+  for (const row of rows) {
+    if (seen.has(row.id)) duplicates.add(row.id);
+    seen.add(row.id);
+  }
+  if (duplicates.size === 0) return;
+  console.warn(
+    `Table: duplicate row ids ${[...duplicates]
+      .slice(0, 5)
+      .map((id) => `"${id}"`)
+      .join(", ")}. Pass a \`getRowId\` that returns a unique id per row.`,
+  );
+}
+
+// ============= Hook =============
+
+/**
+ * Headless table logic: row normalization, tree expansion, filtering,
+ * sorting, grouping, pagination and column sizing. Returns row and header
+ * models plus prop getters; `Table` is built on it, and the same state can
+ * drive card layouts or other markup.
+ */
+export function useTable<TRow extends RowData = RowData>({
+  data,
+  getRowId,
+  columns,
+  visibleColumns = columns,
+  sort: controlledSort,
+  defaultSort,
+  onSortChange,
+  enableMultiSort = true,
+  maxSortColumns,
+  sortLocale,
+  collatorOptions,
+  nullsPosition = "last",
+  filters: controlledFilters,
+  defaultFilters = EMPTY_FILTERS,
+  onFiltersChange,
+  manual = false,
+  totalRowCount,
+  paginate = true,
+  paginationMode = "pages",
+  page: controlledPage,
+  defaultPage = 1,
+  onPageChange,
+  rowsPerPage: controlledRowsPerPage,
+  defaultRowsPerPage = 60,
+  onRowsPerPageChange,
+  groupBy: controlledGroupBy,
+  defaultGroupBy,
+  onGroupByChange,
+  defaultGroupsCollapsed = false,
+  getSubRows,
+  loadChildren,
+  hasChildren,
+  expandedIds: controlledExpandedIds,
+  defaultExpandedIds,
+  onExpandedIdsChange,
+  onLoadChildrenError,
+  minColWidth = 50,
+  columnSizing = "fixed",
+  onColumnResize,
+  mobileAutoSizeOnHeaderClick = false,
+  mobileBreakpoint = 768,
+  locale,
+  messages,
+  dir,
+}: UseTableOptions<TRow>): UseTableResult<TRow> {
+  const { t, direction } = useTableLocale({ locale, messages, dir });
+  // Columns grow toward the inline end, which is leftward in RTL.
+  const inlineSign = direction === "rtl" ? -1 : 1;
+  const headers = visibleColumns;
+  const [sort, setSort] = useControllableState<SortConfig<TRow>[]>(
+    controlledSort,
+    () => normalizeSort(defaultSort),
+    onSortChange,
+  );
+  const [currentPage, setCurrentPage] = useControllableState(
+    controlledPage,
+    defaultPage,
+    onPageChange,
+  );
+  const [filters, setFilters] = useControllableState(
+    controlledFilters,
+    defaultFilters,
+    onFiltersChange,
+  );
+  const [rowsPerPage, setRowsPerPage] = useControllableState(
+    controlledRowsPerPage,
+    defaultRowsPerPage,
+    onRowsPerPageChange,
+  );
+  const [groupBy, setGroupBy] = useControllableState<AccessorPath<TRow>[]>(
+    controlledGroupBy,
+    () => defaultGroupBy ?? [],
+    onGroupByChange,
+  );
+  const [columnWidths, setColumnWidths] = useState<
+    Record<string, string | number>
+  >({});
+  // Widths `columnSizing` gives columns the user hasn't sized.
+  const [autoWidths, setAutoWidths] = useState<Record<string, number>>({});
+  const [expandedColumns, setExpandedColumns] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const tableRef = useRef<HTMLTableElement>(null);
+  const textMeasureContextRef = useRef<CanvasRenderingContext2D | null>(null);
+  const suppressHeaderClickRef = useRef(false);
+  const [isMobile, setIsMobile] = useState(() => {
+    if (typeof window === "undefined") return false;
+    return window.innerWidth < mobileBreakpoint;
+  });
+
+  const initialColumnWidths = useMemo(() => {
+    const widths: Record<string, string | number | undefined> = {};
+    columns.forEach((header) => {
+      widths[header.accessor] = header.width;
+    });
+    return widths;
+  }, [columns]);
+
+  // Reset column widths and expanded columns when columns change
+  useEffect(() => {
+    setColumnWidths(initialColumnWidths as Record<string, string | number>);
+    setExpandedColumns(new Set());
+  }, [initialColumnWidths]);
+
+  useEffect(() => {
+    if (typeof window === "undefined") return undefined;
+    const handleResize = () =>
+      setIsMobile(window.innerWidth < mobileBreakpoint);
+    window.addEventListener("resize", handleResize);
+    return () => window.removeEventListener("resize", handleResize);
+  }, [mobileBreakpoint]);
+
+  // Read through a ref so an inline `getRowId` doesn't re-key every row on
+  // every render.
+  const getRowIdRef = useRef(getRowId);
+  getRowIdRef.current = getRowId;
+  const resolveRowId = (row: TRow, index: number, parent?: TableRow<TRow>) =>
+    (getRowIdRef.current ?? defaultGetRowId)(row, index, parent);
+
+  const rows = useMemo<TableRow<TRow>[]>(() => {
+    if (!Array.isArray(data)) return [];
+
+    const src = data.filter(Boolean).filter((r) => typeof r === "object");
+
+    return src.map((original, index) => ({
+      id: resolveRowId(original, index),
+      index,
+      original,
+    }));
+  }, [data]);
+
+  // ============= Tree Data =============
+
+  const isTree =
+    typeof getSubRows === "function" || typeof loadChildren === "function";
+  const [expandedIds, setExpandedIds] = useControllableState<Set<string>>(
+    controlledExpandedIds,
+    () => new Set(defaultExpandedIds),
+    onExpandedIdsChange,
+  );
+  const [loadedChildren, setLoadedChildren] = useState<Record<string, TRow[]>>(
+    {},
+  );
+  const [loadingChildIds, setLoadingChildIds] = useState<Set<string>>(
+    () => new Set(),
+  );
+
+  // Read through a ref so an inline `getSubRows` doesn't rebuild the tree
+  // on every render.
+  const getSubRowsRef = useRef(getSubRows);
+  getSubRowsRef.current = getSubRows;
+
+  const childrenById = useMemo(() => {
+    const map = new Map<string, TableRow<TRow>[]>();
+    if (!isTree) return map;
+    const visit = (row: TableRow<TRow>) => {
+      const source =
+        loadedChildren[row.id] ?? getSubRowsRef.current?.(row.original);
+      if (!Array.isArray(source)) return;
+      const children = source
+        .filter((child) => child && typeof child === "object")
+        .map((original, index) => ({
+          // Default ids are prefixed with the parent id so sibling ids (and
+          // index fallbacks) can't collide; custom ids are used as given.
+          id: getRowIdRef.current
+            ? getRowIdRef.current(original, index, row)
+            : `${row.id}/${defaultGetRowId(original, index)}`,
+          index,
+          original,
+          depth: (row.depth ?? 0) + 1,
+          parentId: row.id,
+        }));
+      map.set(row.id, children);
+      children.forEach(visit);
+    };
+    rows.forEach(visit);
+    return map;
+  }, [isTree, rows, loadedChildren]);
+
+  useEffect(() => {
+    warnDuplicateRowIds([...rows, ...[...childrenById.values()].flat()]);
+  }, [rows, childrenById]);
+
+  const getChildRows = useCallback(
+    (row: TableRow<TRow>) => childrenById.get(row.id),
+    [childrenById],
+  );
+
+  // Every known row, including collapsed descendants in tree mode.
+  const allRows = useMemo(
+    () => (isTree ? collectTreeRows(rows, getChildRows) : rows),
+    [isTree, rows, getChildRows],
+  );
+
+  const canExpandTreeRow = (row: TableRow<TRow>) => {
+    const children = childrenById.get(row.id);
+    if (children) return children.length > 0;
+    if (!loadChildren) return false;
+    return hasChildren ? hasChildren(row.original) : true;
+  };
+
+  const toggleTreeRow = (row: TableRow<TRow>) => {
+    const isExpanded = expandedIds.has(row.id);
+    setExpandedIds((prev) => {
+      const next = new Set(prev);
+      if (isExpanded) next.delete(row.id);
+      else next.add(row.id);
+      return next;
+    });
+    if (
+      isExpanded ||
+      !loadChildren ||
+      childrenById.has(row.id) ||
+      loadingChildIds.has(row.id)
+    ) {
+      return;
+    }
+
+    const setLoading = (loading: boolean) =>
+      setLoadingChildIds((prev) => {
+        const next = new Set(prev);
+        if (loading) next.add(row.id);
+        else next.delete(row.id);
+        return next;
+      });
+    setLoading(true);
+    loadChildren(row).then(
+      (children) => {
+        setLoading(false);
+        setLoadedChildren((prev) => ({ ...prev, [row.id]: children }));
+      },
+      (error) => {
+        setLoading(false);
+        setExpandedIds((prev) => {
+          const next = new Set(prev);
+          next.delete(row.id);
+          return next;
+        });
+        onLoadChildrenError?.(row, error);
+      },
+    );
+  };
+
+  const expandAll = () =>
+    setExpandedIds(
+      new Set(
+        allRows
+          .filter((row) => (childrenById.get(row.id)?.length ?? 0) > 0)
+          .map((row) => row.id),
+      ),
+    );
+
+  const collapseAll = () => setExpandedIds(new Set());
+
+  // ============= Filtering & Sorting =============
+
+  const filterConfigs = useMemo(
+    () => headers.map((header) => resolveFilterConfig(header)),
+    [headers],
+  );
+
+  // Enum options are derived from the unfiltered rows so choices don't vanish
+  // as other filters narrow the result.
+  const enumOptions = useMemo(() => {
+    const options: Record<string, string[]> = {};
+    headers.forEach((header, idx) => {
+      const config = filterConfigs[idx];
+      if (config?.type === "enum" && !config.options) {
+        options[header.accessor] = getEnumOptions(allRows, header.accessor);
+      }
+    });
+    return options;
+  }, [headers, filterConfigs, allRows]);
+
+  // In tree mode these are the matching nodes at any depth.
+  const filteredRows = useMemo(
+    () => (manual ? rows : filterRows(allRows, headers, filters)),
+    [manual, rows, allRows, headers, filters],
+  );
+
+  const isFiltered = hasActiveFilters(filters);
+
+  const setColumnFilter = (accessor: string, filter: FilterValue) => {
+    setFilters((prev) => ({
+      ...prev,
+      columns: { ...prev.columns, [accessor]: filter },
+    }));
+    setCurrentPage(1);
+  };
+
+  const setGlobalFilter = (global: string) => {
+    setFilters((prev) => ({ ...prev, global }));
+    setCurrentPage(1);
+  };
+
+  const sortedRows = useMemo(() => {
+    const sortOptions = { locale: sortLocale, collatorOptions, nullsPosition };
+    if (isTree) {
+      // Visible tree rows, with siblings sorted under their parent.
+      return flattenTree(rows, {
+        getChildren: getChildRows,
+        isExpanded: (id) => expandedIds.has(id),
+        sortLevel: (level) =>
+          manual ? level : sortRows(level, headers, sort, sortOptions),
+        matchedIds:
+          !manual && hasActiveFilters(filters)
+            ? new Set(filteredRows.map((row) => row.id))
+            : null,
+      });
+    }
+    return manual
+      ? filteredRows
+      : sortRows(filteredRows, headers, sort, sortOptions);
+  }, [
+    isTree,
+    rows,
+    getChildRows,
+    expandedIds,
+    filters,
+    manual,
+    filteredRows,
+    headers,
+    sort,
+    sortLocale,
+    collatorOptions,
+    nullsPosition,
+  ]);
+
+  // Reveal filter matches hidden inside collapsed tree rows.
+  useEffect(() => {
+    if (!isTree || manual || !hasActiveFilters(filters)) return;
+    const rowsById = new Map(allRows.map((row) => [row.id, row]));
+    const ancestors = getAncestorIds(filteredRows, rowsById);
+    if (Array.from(ancestors).every((id) => expandedIds.has(id))) return;
+    setExpandedIds((prev) => new Set([...prev, ...ancestors]));
+    // Only when the filter result changes, so users can still collapse.
+  }, [isTree, manual, filters, filteredRows]);
+
+  const toggleColumnSort = (accessor: string, additive = false) => {
+    setSort((prev) =>
+      toggleSort(
+        prev,
+        accessor as HeaderAccessor<TRow>,
+        additive && enableMultiSort,
+        maxSortColumns,
+      ),
+    );
+    setCurrentPage(1);
+  };
+
+  // ============= Grouping =============
+
+  const groupByKey = groupBy.join("\n");
+  const groupByKeys = useMemo(
+    () => (groupByKey ? groupByKey.split("\n") : []),
+    [groupByKey],
+  );
+  // Grouping doesn't apply to tree data.
+  const isGrouped = groupByKeys.length > 0 && !isTree;
+
+  // Groups whose state differs from `defaultGroupsCollapsed`.
+  const [toggledGroupIds, setToggledGroupIds] = useState<Set<string>>(
+    () => new Set(),
+  );
+  const isGroupCollapsed = useCallback(
+    (id: string) => defaultGroupsCollapsed !== toggledGroupIds.has(id),
+    [defaultGroupsCollapsed, toggledGroupIds],
+  );
+
+  const toggleGroups = (ids: string[]) => {
+    setToggledGroupIds((prev) => {
+      const next = new Set(prev);
+      ids.forEach((id) => (next.has(id) ? next.delete(id) : next.add(id)));
+      return next;
+    });
+  };
+
+  const groups = useMemo(
+    () =>
+      isGrouped
+        ? groupRows(sortedRows, groupByKeys, headers, sort, {
+            locale: sortLocale,
+            collatorOptions,
+            nullsPosition,
+          })
+        : [],
+    [
+      isGrouped,
+      sortedRows,
+      groupByKeys,
+      headers,
+      sort,
+      sortLocale,
+      collatorOptions,
+      nullsPosition,
+    ],
+  );
+
+  const displayRows = useMemo<DisplayRow<TRow>[]>(
+    () =>
+      isGrouped
+        ? flattenGroups(groups, isGroupCollapsed)
+        : sortedRows.map((row, displayIndex) => ({
+            type: "row",
+            row,
+            displayIndex,
+          })),
+    [isGrouped, groups, isGroupCollapsed, sortedRows],
+  );
+
+  // ============= Pagination =============
+
+  // In manual mode the consumer owns the full result set size. Grouped
+  // tables paginate over group header rows plus expanded data rows.
+  const totalCount = manual
+    ? (totalRowCount ?? sortedRows.length)
+    : displayRows.length;
+
+  const hasPages = paginate && totalCount > rowsPerPage;
+  const isPaginated = hasPages && paginationMode === "pages";
+  // Incremental modes render pages 1..page together.
+  const isIncremental = hasPages && !isPaginated;
+
+  const pageCount = hasPages ? Math.ceil(totalCount / rowsPerPage) : 1;
+
+  // Clamp page to valid range — avoids setState-during-render
+  const page = pageCount > 0 ? Math.min(currentPage, pageCount) : 1;
+  const hasMore = isIncremental && page < pageCount;
+
+  // Body rows on the current page (group headers and data rows).
+  const pageItems = useMemo(() => {
+    if (manual || !hasPages) return displayRows;
+    return isIncremental
+      ? paginateDisplayRows(displayRows, 0, page * rowsPerPage)
+      : paginateDisplayRows(displayRows, (page - 1) * rowsPerPage, rowsPerPage);
+  }, [manual, displayRows, page, rowsPerPage, hasPages, isIncremental]);
+
+  const loadMore = useCallback(() => {
+    if (hasMore) setCurrentPage(page + 1);
+  }, [hasMore, page]);
+
+  // Manual mode renders whatever rows the consumer has fetched so far.
+  const rangeOffset = isPaginated ? (page - 1) * rowsPerPage : 0;
+  const renderedCount = manual
+    ? displayRows.length
+    : hasPages
+      ? page * rowsPerPage - rangeOffset
+      : totalCount;
+  const visibleRange = {
+    start: totalCount === 0 ? 0 : rangeOffset + 1,
+    end: Math.min(totalCount, rangeOffset + renderedCount),
+  };
+
+  // Data rows on the current page.
+  const pageRows = useMemo(
+    () => pageItems.flatMap((item) => (item.type === "row" ? [item.row] : [])),
+    [pageItems],
+  );
+
+  // ============= Column Sizing =============
+
+  const measureTextWidth = (text: any): number => {
+    if (typeof document === "undefined") return String(text ?? "").length * 8;
+    const ctx =
+      textMeasureContextRef.current ||
+      (() => {
+        const canvas = document.createElement("canvas");
+        const context = canvas.getContext("2d");
+        if (tableRef.current && context) {
+          const font = window.getComputedStyle(tableRef.current).font;
+          context.font = font || "12px sans-serif";
+        }
+        textMeasureContextRef.current = context;
+        return context;
+      })();
+    return ctx ? ctx.measureText(String(text ?? "")).width : 0;
+  };
+
+  const getHeaderCell = (accessor: string) =>
+    tableRef.current?.querySelector<HTMLTableCellElement>(
+      `thead th[data-accessor="${accessor}"]`,
+    ) ?? null;
+
+  const getWidthBounds = (header: TableHeader<TRow>): [number, number] => {
+    const min = parseWidthValue(header.minWidth, minColWidth);
+    return [min, Math.max(min, parseWidthValue(header.maxWidth, Infinity))];
+  };
+
+  /**
+   * Width that fits a column's label, header icons and the text of the rows
+   * on the current page. Text is measured on a canvas, so rows don't have to
+   * be rendered or laid out; rendered cells are read only for columns with a
+   * `cellRenderer`, whose output has no raw text.
+   */
+  const measureColumnWidth = (header: TableHeader<TRow>) => {
+    const headerCell = getHeaderCell(header.accessor);
+    // Sort icons, menus and handles sit beside the label in its wrapper.
+    const headerIcons = Array.from(
+      headerCell?.firstElementChild?.children ?? [],
+    ).reduce((sum, el) => sum + (el as HTMLElement).offsetWidth, 0);
+    let width = measureTextWidth(header.label || "") + headerIcons;
+
+    if (header.cellRenderer) {
+      tableRef.current
+        ?.querySelectorAll(`tbody td[data-accessor="${header.accessor}"]`)
+        .forEach((cell) => {
+          width = Math.max(width, measureTextWidth(cell.textContent));
+        });
+    } else {
+      pageRows.slice(0, MAX_MEASURED_ROWS).forEach((row) => {
+        width = Math.max(
+          width,
+          measureTextWidth(getAccessorValue(row, header.accessor)),
+        );
+      });
+    }
+
+    let chrome = DEFAULT_CELL_CHROME;
+    if (headerCell) {
+      const style = window.getComputedStyle(headerCell);
+      chrome = [
+        style.paddingLeft,
+        style.paddingRight,
+        style.borderLeftWidth,
+        style.borderRightWidth,
+      ].reduce((sum, value) => sum + (parseFloat(value) || 0), 0);
+    }
+    const [minWidth, maxWidth] = getWidthBounds(header);
+    return clampWidth(Math.ceil(width + chrome), minWidth, maxWidth);
+  };
+
+  // User-driven widths: stored as pixels and reported to `onColumnResize`.
+  const commitColumnWidths = (widths: Record<string, number>) => {
+    setColumnWidths((prev) => {
+      const next = { ...prev };
+      Object.keys(widths).forEach((accessor) => {
+        next[accessor] = `${widths[accessor]}px`;
+      });
+      return next;
+    });
+    Object.keys(widths).forEach((accessor) =>
+      onColumnResize?.(accessor, widths[accessor]),
+    );
+  };
+
+  const autoSizeColumn = (accessor: string) => {
+    const header = headers.find((h) => h.accessor === accessor);
+    if (!tableRef.current || !header) return;
+    commitColumnWidths({ [accessor]: measureColumnWidth(header) });
+  };
+
+  const autoSizeAllColumns = () => {
+    if (!tableRef.current) return;
+    const widths: Record<string, number> = {};
+    headers.forEach((header) => {
+      widths[header.accessor] = measureColumnWidth(header);
+    });
+    commitColumnWidths(widths);
+  };
+
+  const resetColumnWidth = (accessor: string) => {
+    const regularWidth = initialColumnWidths[accessor];
+    setColumnWidths((prev) => {
+      if (regularWidth === undefined) {
+        const next = { ...prev };
+        delete next[accessor];
+        return next;
+      }
+      return { ...prev, [accessor]: regularWidth };
+    });
+  };
+
+  const resizeColumnBy = (accessor: string, delta: number) => {
+    const header = headers.find((h) => h.accessor === accessor);
+    const th = getHeaderCell(accessor);
+    if (!header || !th) return;
+    const [minWidth, maxWidth] = getWidthBounds(header);
+    commitColumnWidths({
+      [accessor]: clampWidth(th.offsetWidth + delta, minWidth, maxWidth),
+    });
+  };
+
+  // Pointer events cover mouse, pen and touch; the resizer sets
+  // `touch-action: none` so a touch drag doesn't scroll the table instead.
+  const handleResizeStart = (e: React.PointerEvent, accessor: string) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    suppressHeaderClickRef.current = true;
+    const startX = e.clientX;
+    const th = (e.target as HTMLElement).closest("th");
+    const header = headers.find((h) => h.accessor === accessor);
+    if (!th || !header) return;
+
+    const [minWidth, maxWidth] = getWidthBounds(header);
+    const startWidth = th.offsetWidth;
+    let width = startWidth;
+
+    document.body.style.cursor = "col-resize";
+    document.body.style.userSelect = "none";
+
+    const handlePointerMove = (moveEvent: PointerEvent) => {
+      if (moveEvent.pointerId !== e.pointerId) return;
+      const deltaX = (moveEvent.clientX - startX) * inlineSign;
+      width = clampWidth(startWidth + deltaX, minWidth, maxWidth);
+      setColumnWidths((prev) => ({
+        ...prev,
+        [accessor]: `${width}px`,
+      }));
+    };
+
+    const handlePointerEnd = (endEvent: PointerEvent) => {
+      if (endEvent.pointerId !== e.pointerId) return;
+      document.body.style.cursor = "";
+      document.body.style.userSelect = "";
+      document.removeEventListener("pointermove", handlePointerMove);
+      document.removeEventListener("pointerup", handlePointerEnd);
+      document.removeEventListener("pointercancel", handlePointerEnd);
+      if (width !== startWidth) onColumnResize?.(accessor, width);
+
+      // Clear the one-shot suppression after click dispatch for this gesture.
+      window.setTimeout(() => {
+        suppressHeaderClickRef.current = false;
+      }, 0);
+    };
+
+    document.addEventListener("pointermove", handlePointerMove);
+    document.addEventListener("pointerup", handlePointerEnd);
+    document.addEventListener("pointercancel", handlePointerEnd);
+  };
+
+  const updateAutoWidths = (next: Record<string, number>) =>
+    setAutoWidths((prev) => {
+      const keys = Object.keys(next);
+      return keys.length === Object.keys(prev).length &&
+        keys.every((key) => prev[key] === next[key])
+        ? prev
+        : next;
+    });
+
+  // Columns the user hasn't sized follow `columnSizing`.
+  const autoHeaders = useMemo(
+    () => headers.filter((h) => columnWidths[h.accessor] === undefined),
+    [headers, columnWidths],
+  );
+  const autoHeadersKey = autoHeaders.map((h) => h.accessor).join(",");
+
+  // Fit to content as the rows on the page change.
+  useIsomorphicLayoutEffect(() => {
+    if (columnSizing !== "fitContent" || !tableRef.current) return;
+    const widths: Record<string, number> = {};
+    autoHeaders.forEach((header) => {
+      widths[header.accessor] = measureColumnWidth(header);
+    });
+    updateAutoWidths(widths);
+  }, [columnSizing, headers, autoHeadersKey, pageRows]);
+
+  // Share the free width of the scroll container by flex weight, again
+  // whenever the container or a sized column changes width.
+  useIsomorphicLayoutEffect(() => {
+    const table = tableRef.current;
+    const container = table?.parentElement;
+    if (columnSizing !== "flex" || !table || !container) return undefined;
+    const measureFlexWidths = () => {
+      // Sized columns, including selection and expander columns, are
+      // subtracted at their rendered width.
+      let available = container.clientWidth;
+      const flexColumns: FlexColumn[] = [];
+      Array.from(table.tHead?.rows[0]?.cells ?? []).forEach((cell) => {
+        const header = autoHeaders.find(
+          (h) => h.accessor === cell.dataset.accessor,
+        );
+        if (!header) {
+          available -= cell.offsetWidth;
+          return;
+        }
+        const [minWidth, maxWidth] = getWidthBounds(header);
+        flexColumns.push({
+          accessor: header.accessor,
+          weight: header.flex ?? 1,
+          minWidth,
+          maxWidth,
+        });
+      });
+      updateAutoWidths(distributeFlexWidths(available, flexColumns));
+    };
+    measureFlexWidths();
+    if (typeof ResizeObserver === "undefined") return undefined;
+    const observer = new ResizeObserver(measureFlexWidths);
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [columnSizing, autoHeaders, columnWidths]);
+
+  const isAutoSizeOnClick = mobileAutoSizeOnHeaderClick && isMobile;
+
+  const activateHeader = (accessor: string, additive = false) => {
+    if (isAutoSizeOnClick) {
+      const isExpanded = expandedColumns.has(accessor);
+      if (isExpanded) resetColumnWidth(accessor);
+      else autoSizeColumn(accessor);
+      setExpandedColumns((prev) => {
+        const next = new Set(prev);
+        if (isExpanded) next.delete(accessor);
+        else next.add(accessor);
+        return next;
+      });
+      return;
+    }
+    const header = headers.find((h) => h.accessor === accessor);
+    if (header?.isSortable) toggleColumnSort(accessor, additive);
+  };
+
+  // ============= Models & Prop Getters =============
+
+  const headerModels = headers.map((column, index): HeaderModel<TRow> => {
+    const sortIndex = sort.findIndex((s) => s.key === column.accessor);
+    const [minWidth, maxWidth] = getWidthBounds(column);
+    const autoWidth =
+      columnSizing === "fixed" ? undefined : autoWidths[column.accessor];
+    return {
+      column,
+      accessor: column.accessor,
+      index,
+      width:
+        columnWidths[column.accessor] ??
+        (autoWidth === undefined ? undefined : `${autoWidth}px`),
+      minWidth,
+      maxWidth: Number.isFinite(maxWidth) ? maxWidth : undefined,
+      isSortable: Boolean(column.isSortable),
+      sortDirection: sortIndex === -1 ? null : sort[sortIndex].direction,
+      sortIndex,
+      isClickable: isAutoSizeOnClick || Boolean(column.isSortable),
+      toggleSort: (additive?: boolean) =>
+        toggleColumnSort(column.accessor, additive),
+    };
+  });
+
+  const getCells = (row: TableRow<TRow>): CellModel<TRow>[] =>
+    headers.map((column) => {
+      const value = getAccessorValue(row, column.accessor);
+      const cellRenderer = column.cellRenderer as
+        | CellRenderer<TRow>
+        | undefined;
+      return {
+        column,
+        accessor: column.accessor,
+        value,
+        content: cellRenderer ? cellRenderer({ row, value }) : value,
+      };
+    });
+
+  const getAriaSort = (
+    header: HeaderModel<TRow>,
+  ): React.AriaAttributes["aria-sort"] => {
+    if (!header.isSortable) return undefined;
+    // aria-sort belongs on a single header: the primary sort key.
+    if (header.sortIndex !== 0) return "none";
+    return header.sortDirection === "asc" ? "ascending" : "descending";
+  };
+
+  const getTableProps = () => ({
+    ref: tableRef,
+    role: isTree ? ("treegrid" as const) : ("grid" as const),
+  });
+
+  const getHeaderProps = (header: HeaderModel<TRow>) => ({
+    "data-accessor": header.accessor,
+    "aria-sort": getAriaSort(header),
+    onClick: (e: React.MouseEvent) => {
+      if (suppressHeaderClickRef.current) {
+        suppressHeaderClickRef.current = false;
+        return;
+      }
+      activateHeader(header.accessor, e.shiftKey);
+    },
+    onMouseDown: (e: React.MouseEvent) => {
+      // Keep shift-click from selecting header text.
+      if (e.shiftKey) e.preventDefault();
+    },
+  });
+
+  const getResizerProps = (header: HeaderModel<TRow>) => ({
+    role: "separator" as const,
+    "aria-orientation": "vertical" as const,
+    "aria-label": t("resizeColumn", { column: header.column.label }),
+    tabIndex: -1,
+    onPointerDown: (e: React.PointerEvent) => {
+      e.stopPropagation();
+      handleResizeStart(e, header.accessor);
+    },
+    onClick: (e: React.MouseEvent) => e.stopPropagation(),
+    onDoubleClick: (e: React.MouseEvent) => {
+      e.stopPropagation();
+      autoSizeColumn(header.accessor);
+    },
+    onKeyDown: (e: React.KeyboardEvent) => {
+      if (e.key !== "ArrowLeft" && e.key !== "ArrowRight") return;
+      e.preventDefault();
+      e.stopPropagation();
+      const delta = (e.key === "ArrowRight" ? 1 : -1) * inlineSign;
+      resizeColumnBy(header.accessor, delta * (e.shiftKey ? 50 : 10));
+    },
+  });
+
+  const getRowProps = (row: TableRow<TRow>) => ({
+    "aria-level": isTree ? (row.depth ?? 0) + 1 : undefined,
+    "aria-expanded":
+      isTree && canExpandTreeRow(row) ? expandedIds.has(row.id) : undefined,
+  });
+
+  const getCellProps = (row: TableRow<TRow>, cell: CellModel<TRow>) => ({
+    "data-row-id": row.id,
+    "data-accessor": cell.accessor,
+  });
+
+  const getColumnStyle = (header: HeaderModel<TRow>): CSSProperties => ({
+    width: header.width,
+    minWidth: `${header.minWidth}px`,
+  });
+
+  return {
+    rows,
+    allRows,
+    filteredRows,
+    sortedRows,
+    displayRows,
+    pageItems,
+    pageRows,
+    headers: headerModels,
+    getCells,
+    sort,
+    setSort,
+    toggleSort: toggleColumnSort,
+    filters,
+    setFilters,
+    setColumnFilter,
+    setGlobalFilter,
+    isFiltered,
+    filterConfigs,
+    enumOptions,
+    currentPage,
+    page,
+    setPage: setCurrentPage,
+    pageCount,
+    rowsPerPage,
+    setRowsPerPage,
+    isPaginated,
+    paginationMode,
+    totalCount,
+    visibleRange,
+    hasMore,
+    loadMore,
+    groupBy: groupByKeys,
+    setGroupBy,
+    isGrouped,
+    groups,
+    isGroupCollapsed,
+    toggleGroups,
+    isTree,
+    expandedIds,
+    setExpandedIds,
+    loadingChildIds,
+    getChildRows,
+    canExpandTreeRow,
+    toggleTreeRow,
+    expandAll,
+    collapseAll,
+    columnWidths,
+    setColumnWidths,
+    initialColumnWidths,
+    columnSizing,
+    resizeColumnBy,
+    autoSizeColumn,
+    autoSizeAllColumns,
+    resetColumnWidth,
+    isMobile,
+    activateHeader,
+    tableRef,
+    getTableProps,
+    getHeaderProps,
+    getResizerProps,
+    getRowProps,
+    getCellProps,
+    getColumnStyle,
+  };
+}
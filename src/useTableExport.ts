@@ -0,0 +1,19 @@
+import { useCallback, useRef } from "react";
+import type { TableHandle } from "./Table";
+import type { ExportOptions } from "./export";
+
+/**
+ * Convenience wrapper around `TableHandle.exportData`. Pass `ref` to the
+ * table and call `exportData` from your own buttons or menus.
+ */
+export function useTableExport() {
+  const ref = useRef<TableHandle>(null);
+
+  const exportData = useCallback(
+    (options: ExportOptions): Blob | null =>
+      ref.current ? ref.current.exportData(options) : null,
+    [],
+  );
+
+  return { ref, exportData };
+}
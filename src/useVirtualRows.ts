@@ -0,0 +1,161 @@
+import {
+  RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { useIsomorphicLayoutEffect } from "./utils";
+
+// ============= TypeScript Interfaces =============
+
+export interface VirtualRowsOptions {
+  enabled: boolean;
+  count: number;
+  getKey: (index: number) => string;
+  estimateSize: number;
+  overscan: number;
+  scrollRef: RefObject<HTMLElement | null>;
+  /** Element holding the rendered rows; rows must carry `data-apt-index`. */
+  bodyRef: RefObject<HTMLElement | null>;
+  /** Height of sticky content above the body (e.g. the table header). */
+  getHeaderOffset: () => number;
+}
+
+export interface VirtualRowsResult {
+  startIndex: number;
+  endIndex: number;
+  paddingTop: number;
+  paddingBottom: number;
+  getOffset: (index: number) => number;
+  getSize: (index: number) => number;
+}
+
+// ============= Hook =============
+
+/**
+ * Windowed rendering for table rows. Item sizes start at `estimateSize` and
+ * are replaced with measured heights (summing every `<tr>` that shares a
+ * `data-apt-index`, so expanded detail rows count toward their parent).
+ */
+export function useVirtualRows({
+  enabled,
+  count,
+  getKey,
+  estimateSize,
+  overscan,
+  scrollRef,
+  bodyRef,
+  getHeaderOffset,
+}: VirtualRowsOptions): VirtualRowsResult {
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const sizeCacheRef = useRef<Map<string, number>>(new Map());
+  const hasItems = count > 0;
+
+  // The scroll element may mount after the first render (empty state).
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (!enabled || !el) return undefined;
+
+    let frame = 0;
+    const handleScroll = () => {
+      if (frame) return;
+      frame = window.requestAnimationFrame(() => {
+        frame = 0;
+        setScrollTop(el.scrollTop);
+      });
+    };
+    setScrollTop(el.scrollTop);
+    setViewportHeight(el.clientHeight);
+    el.addEventListener("scroll", handleScroll, { passive: true });
+
+    let observer: ResizeObserver | undefined;
+    if (typeof ResizeObserver !== "undefined") {
+      observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+      observer.observe(el);
+    }
+
+    return () => {
+      if (frame) window.cancelAnimationFrame(frame);
+      el.removeEventListener("scroll", handleScroll);
+      observer?.disconnect();
+    };
+  }, [enabled, hasItems, scrollRef]);
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(count + 1);
+    result[0] = 0;
+    for (let i = 0; i < count; i++) {
+      const size = enabled
+        ? (sizeCacheRef.current.get(getKey(i)) ?? estimateSize)
+        : estimateSize;
+      result[i + 1] = result[i] + size;
+    }
+    return result;
+    // measureVersion invalidates the memo when cached sizes change.
+  }, [enabled, count, getKey, estimateSize, measureVersion]);
+
+  const totalSize = offsets[count];
+
+  let startIndex = 0;
+  let endIndex = count;
+  if (enabled && count > 0) {
+    const bodyTop = Math.max(0, scrollTop - getHeaderOffset());
+    const viewport = viewportHeight || estimateSize * 20;
+    // Binary search for the first row whose bottom edge is below bodyTop.
+    let low = 0;
+    let high = count - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (offsets[mid + 1] <= bodyTop) low = mid + 1;
+      else high = mid;
+    }
+    let last = low;
+    while (last < count && offsets[last] < bodyTop + viewport) last++;
+    startIndex = Math.max(0, low - overscan);
+    endIndex = Math.min(count, last + overscan);
+  }
+
+  // Measure rendered rows after every render; only re-render on change.
+  useIsomorphicLayoutEffect(() => {
+    if (!enabled || !bodyRef.current) return;
+    const measured = new Map<number, number>();
+    bodyRef.current
+      .querySelectorAll<HTMLElement>("tr[data-apt-index]")
+      .forEach((tr) => {
+        const index = Number(tr.dataset.aptIndex);
+        measured.set(index, (measured.get(index) ?? 0) + tr.offsetHeight);
+      });
+    let changed = false;
+    measured.forEach((height, index) => {
+      if (index >= count || height <= 0) return;
+      const key = getKey(index);
+      if (sizeCacheRef.current.get(key) !== height) {
+        sizeCacheRef.current.set(key, height);
+        changed = true;
+      }
+    });
+    if (changed) setMeasureVersion((v) => v + 1);
+  });
+
+  const getOffset = useCallback(
+    (index: number) => offsets[Math.max(0, Math.min(index, count))] ?? 0,
+    [offsets, count],
+  );
+  const getSize = useCallback(
+    (index: number) => (offsets[index + 1] ?? 0) - (offsets[index] ?? 0),
+    [offsets],
+  );
+
+  return {
+    startIndex,
+    endIndex,
+    paddingTop: enabled ? offsets[startIndex] : 0,
+    paddingBottom: enabled ? totalSize - offsets[endIndex] : 0,
+    getOffset,
+    getSize,
+  };
+}
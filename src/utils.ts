@@ -0,0 +1,64 @@
+import { useEffect, useLayoutEffect } from "react";
+import type { RowData, TableRow } from "./types";
+
+// SSR-safe layout effect
+export const useIsomorphicLayoutEffect =
+  typeof window === "undefined" ? useEffect : useLayoutEffect;
+
+declare const process: { env: { NODE_ENV?: string } };
+
+// Bundlers inline `process.env.NODE_ENV`; without one, assume development.
+export const isDevelopment = () => {
+  try {
+    return process.env.NODE_ENV !== "production";
+  } catch {
+    return true;
+  }
+};
+
+export const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// ============= Accessor Utilities =============
+
+/**
+ * Reads a (possibly dot-separated) accessor from a plain object. Keys that
+ * literally contain a dot win over nested lookup.
+ */
+export function getPathValue(source: unknown, path: string): any {
+  if (source === null || source === undefined) return undefined;
+  const record = source as Record<string, any>;
+  if (path in record) return record[path];
+  if (!path.includes(".")) return undefined;
+  return path.split(".").reduce<any>((acc, key) => {
+    if (acc === null || acc === undefined) return undefined;
+    return acc[key];
+  }, record);
+}
+
+/**
+ * Parses a CSS width (`120`, `"120px"`) into pixels, or returns `fallback`.
+ */
+export function parseWidthValue(
+  value: string | number | undefined,
+  fallback: number,
+): number {
+  if (typeof value === "number" && !Number.isNaN(value)) return value;
+  if (typeof value === "string") {
+    const parsed = parseFloat(value);
+    if (!Number.isNaN(parsed)) return parsed;
+  }
+  return fallback;
+}
+
+/**
+ * Resolves the cell value for a header accessor on a wrapped row.
+ */
+export function getAccessorValue<TRow extends RowData>(
+  row: TableRow<TRow>,
+  accessor: string,
+): any {
+  const value = getPathValue(row.original, accessor);
+  if (accessor === "#" && value === undefined) return row.index + 1;
+  return value;
+}